@@ -0,0 +1,175 @@
+import type S3aglePlugin from "../main"
+import { AttachmentEntry, UploadResults } from "../types"
+import { getPrimaryBackendId, getStorageBackend } from "../storage/storageBackend"
+import { getS3KeyFromUrl, isEncryptedS3Reference, parseS3Reference } from "../s3/s3ObjectUrl"
+import { S3agleSettings } from "../settings"
+import { getEagleItemIdFromLink } from "../eagle/eagleItemLink"
+import { s3Backend } from "../s3/s3Backend"
+import { eagleBackend } from "../eagle/eagleBackend"
+import { vaultBackend } from "../vault/vaultBackend"
+
+// Whether an S3 location is what an upload with these settings would produce: encrypted or not, and private or public
+const matchesS3LinkSettings = (location: string, settings: S3agleSettings): boolean => {
+  if (isEncryptedS3Reference(location)) return settings.s3Encryption
+  if (settings.s3Encryption) return false
+  return (parseS3Reference(location) !== null) === settings.s3PrivateLinks
+}
+
+/**
+ * Record of every file the plugin uploaded, saved in plugin data and keyed by content hash.
+ * Used to skip uploading the same content twice and to find the notes a file is used in.
+ */
+export class AttachmentIndex {
+  entries: Record<string, AttachmentEntry> = {}
+  private plugin: S3aglePlugin
+
+  constructor(plugin: S3aglePlugin, entries: Record<string, AttachmentEntry> = {}) {
+    this.plugin = plugin
+    this.entries = entries
+  }
+
+  get(hash: string): AttachmentEntry | undefined {
+    return this.entries[hash]
+  }
+
+  // Entry whose link or one of whose locations is the given location
+  findByLocation(location: string): AttachmentEntry | undefined {
+    return Object.values(this.entries).find((entry) =>
+      entry.link === location || Object.values(entry.locations).includes(location),
+    )
+  }
+
+  // Locations the content already has in the given destinations. Locations that no longer exist are forgotten,
+  // and ones written under other S3 encryption or link settings are left for a new upload
+  async getKnownLocations(hash: string, destinations: string[], settings = this.plugin.settings): Promise<UploadResults> {
+    const entry = this.entries[hash]
+    if (!entry) return {}
+
+    const { app } = this.plugin
+    const known: UploadResults = {}
+    let changed = false
+    for (const backendId of destinations) {
+      const location = entry.locations[backendId]
+      const backend = getStorageBackend(backendId)
+      if (!location || !backend) continue
+      if (backendId === s3Backend.id && !matchesS3LinkSettings(location, settings)) continue
+      try {
+        if (await backend.exists(location, { app, settings })) {
+          known[backendId] = location
+          continue
+        }
+      } catch (error) {
+        // Can't tell, so upload again rather than link to something that may be gone
+        console.error("Error checking indexed location:", location, error)
+        continue
+      }
+      delete entry.locations[backendId]
+      changed = true
+    }
+    if (changed) {
+      this.updateDerivedFields(entry)
+      await this.plugin.saveSettings()
+    }
+    return known
+  }
+
+  // Add or update the entry for an uploaded file
+  async record(file: File, hash: string, results: UploadResults, notePaths: string[]): Promise<AttachmentEntry> {
+    const entry: AttachmentEntry = this.entries[hash] || {
+      hash,
+      fileName: file.name,
+      size: file.size,
+      mimeType: file.type,
+      uploadedAt: Date.now(),
+      locations: {},
+      link: "",
+      notes: [],
+    }
+    Object.assign(entry.locations, results)
+    entry.link = results[getPrimaryBackendId(this.plugin.settings, results) || ""] || entry.link
+    entry.notes = Array.from(new Set([...entry.notes, ...notePaths]))
+    this.updateDerivedFields(entry)
+
+    this.entries[hash] = entry
+    await this.plugin.saveSettings()
+    return entry
+  }
+
+  // Add a location to the entry that has another one, for example a vault copy of a downloaded file
+  async addLocation(existingLocation: string, backendId: string, location: string): Promise<void> {
+    const entry = this.findByLocation(existingLocation)
+    if (!entry) return
+    entry.locations[backendId] = location
+    this.updateDerivedFields(entry)
+    await this.plugin.saveSettings()
+  }
+
+  // Forget S3 objects that were deleted or moved away
+  async removeS3Keys(keys: string[]): Promise<void> {
+    const removed = new Set(keys)
+    for (const entry of Object.values(this.entries)) {
+      if (!entry.s3Key || !removed.has(entry.s3Key)) continue
+      delete entry.locations[s3Backend.id]
+      this.updateDerivedFields(entry)
+    }
+    await this.plugin.saveSettings()
+  }
+
+  // Forget Eagle items that were moved to the Eagle trash
+  async removeEagleItems(itemIds: string[]): Promise<void> {
+    const removed = new Set(itemIds)
+    for (const entry of Object.values(this.entries)) {
+      if (!entry.eagleItemId || !removed.has(entry.eagleItemId)) continue
+      delete entry.locations[eagleBackend.id]
+      this.updateDerivedFields(entry)
+    }
+    await this.plugin.saveSettings()
+  }
+
+  // Keep note and vault paths up to date when a file is renamed
+  async renamePath(oldPath: string, newPath: string): Promise<void> {
+    let changed = false
+    for (const entry of Object.values(this.entries)) {
+      if (entry.notes.includes(oldPath)) {
+        entry.notes = entry.notes.map((notePath) => (notePath === oldPath ? newPath : notePath))
+        changed = true
+      }
+      for (const [backendId, location] of Object.entries(entry.locations)) {
+        if (location !== oldPath) continue
+        entry.locations[backendId] = newPath
+        if (entry.link === oldPath) entry.link = newPath
+        this.updateDerivedFields(entry)
+        changed = true
+      }
+    }
+    if (changed) await this.plugin.saveSettings()
+  }
+
+  // Notes that currently link to any location of the entry. The stored list is refreshed with the result
+  async findUsage(entry: AttachmentEntry): Promise<string[]> {
+    const { app } = this.plugin
+    const locations = Array.from(new Set([entry.link, ...Object.values(entry.locations)].filter(Boolean)))
+    const notes: string[] = []
+    for (const note of app.vault.getMarkdownFiles()) {
+      // Vault files are usually linked with a wikilink, which the metadata cache has already resolved
+      const resolved = entry.vaultPath && app.metadataCache.resolvedLinks[note.path]?.[entry.vaultPath]
+      if (resolved) {
+        notes.push(note.path)
+        continue
+      }
+      const content = await app.vault.cachedRead(note)
+      if (locations.some((location) => content.includes(location))) notes.push(note.path)
+    }
+    entry.notes = notes
+    await this.plugin.saveSettings()
+    return notes
+  }
+
+  private updateDerivedFields(entry: AttachmentEntry): void {
+    const s3Location = entry.locations[s3Backend.id]
+    const eagleLocation = entry.locations[eagleBackend.id]
+    entry.s3Key = (s3Location && getS3KeyFromUrl(s3Location, this.plugin.settings)) || undefined
+    entry.eagleItemId = (eagleLocation && getEagleItemIdFromLink(eagleLocation)) || undefined
+    entry.vaultPath = entry.locations[vaultBackend.id] || undefined
+  }
+}
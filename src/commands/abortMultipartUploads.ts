@@ -0,0 +1,70 @@
+import { App, Command, Modal, Notice, Setting } from "obsidian";
+import { S3agleSettings } from "../settings";
+import { UnfinishedMultipartUpload, abortS3MultipartUploads, listOrphanedMultipartUploads } from "../s3/uploadToS3";
+
+export const abortMultipartUploadsCommand = (app: App, settings: S3agleSettings): Command => ({
+  id: "abort-multipart-uploads",
+  name: "Clean up unfinished multipart uploads on S3",
+  callback: () => findUnfinishedUploads(app, settings),
+});
+
+const findUnfinishedUploads = async (app: App, settings: S3agleSettings) => {
+  try {
+    const uploads = await listOrphanedMultipartUploads(settings);
+    if (!uploads.length) {
+      new Notice("S3agle: No multipart uploads were left unfinished for more than a day.");
+      return;
+    }
+    new AbortMultipartUploadsModal(app, settings, uploads).open();
+  } catch (error) {
+    console.error("Error listing multipart uploads:", error);
+    new Notice("S3agle: Failed to look for unfinished multipart uploads. Check the console for details.");
+  }
+};
+
+class AbortMultipartUploadsModal extends Modal {
+  private settings: S3agleSettings;
+  private uploads: UnfinishedMultipartUpload[];
+
+  constructor(app: App, settings: S3agleSettings, uploads: UnfinishedMultipartUpload[]) {
+    super(app);
+    this.settings = settings;
+    this.uploads = uploads;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Unfinished multipart uploads");
+    contentEl.createEl("p", {
+      text: `${this.uploads.length} multipart upload(s) were started over a day ago and never finished. Aborting them deletes their uploaded parts.`,
+    });
+
+    const listEl = contentEl.createDiv({ cls: "s3agle-review-list" });
+    for (const upload of this.uploads) {
+      new Setting(listEl).setName(upload.key).setDesc(`Started ${upload.initiated.toLocaleString()}`);
+    }
+
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("Keep all").onClick(() => this.close()))
+      .addButton((button) =>
+        button
+          .setButtonText("Abort uploads")
+          .setWarning()
+          .onClick(() => this.abortAll()),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async abortAll() {
+    this.close();
+    const aborted = await abortS3MultipartUploads(this.uploads, this.settings);
+    new Notice(
+      aborted < this.uploads.length
+        ? `S3agle: Aborted ${aborted} unfinished multipart upload(s), ${this.uploads.length - aborted} failed. Check the console for details.`
+        : `S3agle: Aborted ${aborted} unfinished multipart upload(s).`,
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { App, Command, Modal, Notice, Setting } from "obsidian";
+import type S3aglePlugin from "../main";
+import { S3agleSettings } from "../settings";
+import { StoredObject } from "../storage/storageBackend";
+import { s3Backend } from "../s3/s3Backend";
+import { collectVaultS3Links } from "../s3/collectVaultS3Links";
+import { getS3FolderPrefix, getS3KeyFromUrl } from "../s3/s3ObjectUrl";
+import { deleteS3Objects } from "../s3/deleteS3Objects";
+import { moveS3Objects } from "../s3/moveS3Objects";
+import { formatFileSize } from "../helpers";
+import { AttachmentIndex } from "../attachments/attachmentIndex";
+import { getS3LinkSettings } from "../s3/s3Profiles";
+
+type OrphanedObject = StoredObject & { key: string };
+
+export const cleanupOrphanedFilesCommand = (plugin: S3aglePlugin): Command => ({
+  id: "cleanup-orphaned-files",
+  name: "Find files in S3 that no note links to",
+  callback: () => findOrphanedFiles(plugin),
+});
+
+const findOrphanedFiles = async (plugin: S3aglePlugin) => {
+  const { app, settings } = plugin;
+  const trashPrefix = settings.s3TrashPrefix.replace(/^\/+|\/+$/g, "");
+  new Notice("S3agle: Looking for orphaned files…");
+
+  try {
+    // Links written with any saved profile for this bucket count, they may use another endpoint or content URL
+    const linkSettings = getS3LinkSettings(settings).filter((known) => known.bucket === settings.bucket);
+    const getKey = (link: string): string | null =>
+      linkSettings.map((known) => getS3KeyFromUrl(link, known)).find((key) => key !== null) || null;
+
+    const referencedKeys = new Set<string>();
+    for (const known of linkSettings) {
+      for (const note of await collectVaultS3Links(app, known)) {
+        for (const link of note.links) {
+          const key = getKey(link.path);
+          if (key) referencedKeys.add(key);
+        }
+      }
+    }
+    // Files that are uploaded but whose link hasn't been written to the note yet
+    for (const job of plugin.uploadQueue.jobs) {
+      const key = job.results[s3Backend.id] && getKey(job.results[s3Backend.id]);
+      if (key) referencedKeys.add(key);
+    }
+
+    const objects = await s3Backend.list({ app, settings }, getS3FolderPrefix(settings));
+    const orphans: OrphanedObject[] = [];
+    for (const object of objects) {
+      const key = getS3KeyFromUrl(object.location, settings);
+      if (!key || referencedKeys.has(key)) continue;
+      if (trashPrefix && key.startsWith(trashPrefix + "/")) continue;
+      orphans.push({ ...object, key });
+    }
+
+    if (!orphans.length) {
+      new Notice(`S3agle: All ${objects.length} files in S3 are linked from a note.`);
+      return;
+    }
+    new OrphanedFilesModal(app, settings, plugin.attachmentIndex, orphans).open();
+  } catch (error) {
+    console.error("Error finding orphaned files:", error);
+    new Notice("S3agle: Failed to look for orphaned files. Check the console for details.");
+  }
+};
+
+class OrphanedFilesModal extends Modal {
+  private settings: S3agleSettings;
+  private index: AttachmentIndex;
+  private orphans: OrphanedObject[];
+  private selected: Set<string>;
+
+  constructor(app: App, settings: S3agleSettings, index: AttachmentIndex, orphans: OrphanedObject[]) {
+    super(app);
+    this.settings = settings;
+    this.index = index;
+    this.orphans = orphans;
+    // Nothing is removed unless it is picked in the list
+    this.selected = new Set();
+  }
+
+  onOpen() {
+    this.titleEl.setText("Orphaned S3 files");
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("p", {
+      text: `${this.orphans.length} file(s) in the bucket are not linked from any note. Review them before removing anything.`,
+    });
+    if (!getS3FolderPrefix(this.settings)) {
+      contentEl.createEl("p", {
+        cls: "mod-warning",
+        text: "No S3 folder is set, so this lists the whole bucket, including files that were not uploaded from this vault.",
+      });
+    }
+
+    new Setting(contentEl)
+      .setName("Select all")
+      .addToggle((toggle) =>
+        toggle.setValue(this.selected.size === this.orphans.length).onChange((value) => {
+          this.selected = new Set(value ? this.orphans.map((orphan) => orphan.key) : []);
+          this.render();
+        }),
+      );
+
+    const listEl = contentEl.createDiv({ cls: "s3agle-review-list" });
+    for (const orphan of this.orphans) {
+      const details = [
+        orphan.size !== undefined ? formatFileSize(orphan.size) : "",
+        orphan.lastModified ? orphan.lastModified.toLocaleDateString() : "",
+      ].filter(Boolean).join(", ");
+      new Setting(listEl)
+        .setName(orphan.key)
+        .setDesc(details)
+        .addToggle((toggle) =>
+          toggle.setValue(this.selected.has(orphan.key)).onChange((value) => {
+            if (value) this.selected.add(orphan.key);
+            else this.selected.delete(orphan.key);
+          }),
+        );
+    }
+
+    const actions = new Setting(contentEl);
+    if (this.settings.s3TrashPrefix) {
+      actions.addButton((button) =>
+        button
+          .setButtonText(`Move to ${this.settings.s3TrashPrefix}`)
+          .onClick(() => this.removeSelected("move")),
+      );
+    }
+    actions.addButton((button) =>
+      button
+        .setButtonText("Delete")
+        .setWarning()
+        .onClick(() => this.removeSelected("delete")),
+    );
+  }
+
+  private async removeSelected(action: "move" | "delete") {
+    const keys = Array.from(this.selected);
+    if (!keys.length) {
+      new Notice("S3agle: No files selected.");
+      return;
+    }
+    this.close();
+
+    try {
+      const failed = action === "move"
+        ? await moveS3Objects(keys, this.settings.s3TrashPrefix, this.settings)
+        : await deleteS3Objects(keys, this.settings);
+      // Content whose object is gone has to be uploaded again next time
+      await this.index.removeS3Keys(keys.filter((key) => !failed.includes(key)));
+      const verb = action === "move" ? "Moved" : "Deleted";
+      new Notice(
+        failed.length
+          ? `S3agle: ${verb} ${keys.length - failed.length} file(s), ${failed.length} failed. Check the console for details.`
+          : `S3agle: ${verb} ${keys.length} file(s).`,
+      );
+    } catch (error) {
+      console.error("Error removing orphaned files:", error);
+      new Notice("S3agle: Failed to remove files. Check the console for details.");
+    }
+  }
+}
@@ -3,6 +3,8 @@ import { extractFileNameFromUrl, isS3Url } from "../helpers";
 import { S3agleSettings } from "../settings";
 import { saveFileToVault } from "../vault/saveFileToVault";
 import { downloadFileFromS3 } from "../s3/downloadFileFromS3";
+import { s3Backend } from "../s3/s3Backend";
+import { getNoteSettings } from "../noteSettings";
 
 export const downloadAllFilesCommand = (app: App, settings: S3agleSettings): Command => ({
   id: "download-all-files",
@@ -13,12 +15,13 @@ export const downloadAllFilesCommand = (app: App, settings: S3agleSettings): Com
 const downloadAllFiles = async (app: App, settings: S3agleSettings) => {
   const noteFile = app.workspace.getActiveFile();
   if (!noteFile || !noteFile.name) return;
+  const noteSettings = getNoteSettings(app, settings, noteFile.path);
 
   const noteContent = await app.vault.read(noteFile);
   const urlToLocal = new Map<string, string>();
   const uniqueUrls = new Set<string>();
 
-  const linkRegex = /\[.*?\]\((https?:\/\/.*?)\)/g;
+  const linkRegex = /\[.*?\]\(((?:https?|s3agle):\/\/.*?)\)/g;
   let match;
 
   while ((match = linkRegex.exec(noteContent)) !== null) {
@@ -27,14 +30,16 @@ const downloadAllFiles = async (app: App, settings: S3agleSettings) => {
 
   for (const url of uniqueUrls) {
     try {
-      if (!isS3Url(url, settings.contentUrl)) continue;
+      // Links in the bucket go through the S3 API, which also decrypts encrypted files
+      const inBucket = s3Backend.owns(url, noteSettings);
+      if (!inBucket && !isS3Url(url, noteSettings.contentUrl)) continue;
 
       const fileName = extractFileNameFromUrl(url);
-      const localPath = `${settings.localUploadFolder}/${fileName}`;
-      const fileData = await downloadFileFromS3(url);
+      const localPath = `${noteSettings.localUploadFolder}/${fileName}`;
+      const fileData = inBucket ? await s3Backend.download(url, { app, settings: noteSettings }) : await downloadFileFromS3(url);
       const file = new File([fileData], fileName);
 
-      await saveFileToVault(file, settings, app);
+      await saveFileToVault(file, noteSettings, app);
       urlToLocal.set(url, localPath);
     } catch (error) {
       console.error("Error downloading from URL:", url, error);
@@ -44,7 +49,7 @@ const downloadAllFiles = async (app: App, settings: S3agleSettings) => {
 
   let updatedContent = noteContent;
   urlToLocal.forEach((localPath, url) => {
-    updatedContent = updatedContent.replace(new RegExp(url, 'g'), localPath);
+    updatedContent = updatedContent.split(url).join(localPath);
   });
 
   await app.vault.modify(noteFile, updatedContent);
@@ -0,0 +1,93 @@
+import { App, Command, Notice, TFile } from "obsidian";
+import { extractFileNameFromUrl } from "../helpers";
+import { S3agleSettings } from "../settings";
+import { saveFileToVault } from "../vault/saveFileToVault";
+import { downloadFileFromS3 } from "../s3/downloadFileFromS3";
+import { ProfileS3Link, collectVaultProfileS3Links } from "../s3/collectVaultS3Links";
+import { s3Backend } from "../s3/s3Backend";
+import { FolderSuggestModal } from "../modals/folderSuggestModal";
+import { AttachmentIndex } from "../attachments/attachmentIndex";
+import { vaultBackend } from "../vault/vaultBackend";
+
+export const downloadVaultFilesCommand = (app: App, settings: S3agleSettings, index: AttachmentIndex): Command => ({
+  id: "download-vault-files",
+  name: "Download ALL S3 files in the vault or a folder to local",
+  callback: () =>
+    new FolderSuggestModal(app, "Folder to bring S3 files back into the vault for…", (folder) =>
+      downloadVaultFiles(app, settings, index, folder.path),
+    ).open(),
+});
+
+// Download a file through the S3 API with the profile it was written with, so private links and references work too
+const downloadLink = async (app: App, { path, settings }: ProfileS3Link): Promise<Uint8Array> => {
+  return s3Backend.owns(path, settings) ? s3Backend.download(path, { app, settings }) : downloadFileFromS3(path);
+};
+
+const downloadVaultFiles = async (app: App, settings: S3agleSettings, index: AttachmentIndex, folderPath: string) => {
+  const notes = await collectVaultProfileS3Links(app, settings, folderPath);
+  const linksByUrl = new Map<string, ProfileS3Link>();
+  for (const link of notes.flatMap((note) => note.links)) {
+    if (!linksByUrl.has(link.path)) linksByUrl.set(link.path, link);
+  }
+  const urls = Array.from(linksByUrl.keys());
+  if (!urls.length) {
+    new Notice("S3agle: No S3 files found.");
+    return;
+  }
+
+  // Each file is downloaded once, however many notes link to it, with the settings of the first note
+  const progress = new Notice("", 0);
+  const urlToFile = new Map<string, TFile>();
+  const failed: string[] = [];
+  for (const [position, url] of urls.entries()) {
+    progress.setMessage(`S3agle: Downloading ${position + 1}/${urls.length}: ${extractFileNameFromUrl(url)}`);
+    try {
+      // Files that already have a copy in the vault are linked to it instead of being downloaded again
+      const vaultPath = index.findByLocation(url)?.vaultPath;
+      const existing = vaultPath && app.vault.getAbstractFileByPath(vaultPath);
+      if (existing instanceof TFile) {
+        urlToFile.set(url, existing);
+        continue;
+      }
+
+      const link = linksByUrl.get(url) as ProfileS3Link;
+      const fileData = await downloadLink(app, link);
+      const filePath = await saveFileToVault(
+        new File([fileData], extractFileNameFromUrl(url)),
+        { ...link.settings, hashFileName: false },
+        app,
+        false,
+        false,
+      );
+      const file = app.vault.getAbstractFileByPath(filePath);
+      if (!(file instanceof TFile)) throw new Error(`Failed to save ${url} in the vault.`);
+      urlToFile.set(url, file);
+      await index.addLocation(url, vaultBackend.id, file.path);
+    } catch (error) {
+      console.error("Error downloading from URL:", url, error);
+      failed.push(url);
+    }
+  }
+
+  // Every embed form points at the local copy with a wikilink embed
+  progress.setMessage("S3agle: Updating links…");
+  let rewrittenLinks = 0;
+  for (const { notePath, links } of notes) {
+    const note = app.vault.getAbstractFileByPath(notePath);
+    if (!(note instanceof TFile)) continue;
+    await app.vault.process(note, (content) =>
+      links.reduce((text, link) => {
+        const file = urlToFile.get(link.path);
+        if (!file || !text.includes(link.reference)) return text;
+        rewrittenLinks++;
+        return text.split(link.reference).join(`![[${app.metadataCache.fileToLinktext(file, notePath, false)}]]`);
+      }, content),
+    );
+  }
+  progress.hide();
+
+  new Notice(
+    `S3agle: Downloaded ${urlToFile.size} file(s) to the vault and updated ${rewrittenLinks} link(s).` +
+      (failed.length ? ` ${failed.length} file(s) failed, check the console for details.` : ""),
+  );
+};
@@ -0,0 +1,80 @@
+import { App, Command, Modal } from "obsidian";
+import { S3agleSettings } from "../settings";
+import { NoteSettingsExplanation, explainNoteSettings } from "../noteSettings";
+import { getDestinations } from "../processFile";
+import { getStorageBackend } from "../storage/storageBackend";
+import { S3_PROFILE_FIELDS } from "../s3/s3Profiles";
+
+// What is shown for each part of the settings, and the settings it comes from
+const SUMMARY: { label: string; fields: (keyof S3agleSettings)[]; describe: (settings: S3agleSettings) => string }[] = [
+  {
+    label: "Destinations",
+    fields: ["useS3", "useVault", "useEagle", "backendOrder"],
+    describe: (settings) => getDestinations(settings).map((id) => getStorageBackend(id)?.name || id).join(", ") || "None",
+  },
+  {
+    label: "S3 bucket",
+    fields: [...S3_PROFILE_FIELDS],
+    describe: (settings) => `${settings.bucket || "(none)"} on ${settings.s3Url}`,
+  },
+  { label: "S3 folder", fields: ["s3Folder"], describe: (settings) => settings.s3Folder || "(bucket root)" },
+  { label: "Eagle library", fields: ["eagleLibrary"], describe: (settings) => settings.eagleLibrary || "Whichever library is open" },
+  { label: "Eagle folder", fields: ["eagleFolder"], describe: (settings) => settings.eagleFolder || "(library root)" },
+  { label: "Hash file names", fields: ["hashFileName"], describe: (settings) => (settings.hashFileName ? "Yes" : "No") },
+  { label: "Embed style", fields: ["embedStyle"], describe: (settings) => (settings.embedStyle === "link" ? "Link" : "Embed") },
+  { label: "Ask before uploading", fields: ["askOnPaste"], describe: (settings) => (settings.askOnPaste ? "Yes" : "No") },
+  { label: "Upload on drag-and-drop", fields: ["uploadOnDrag"], describe: (settings) => (settings.uploadOnDrag ? "Yes" : "No") },
+];
+
+export const explainNoteSettingsCommand = (app: App, settings: S3agleSettings): Command => ({
+  id: "explain-note-settings",
+  name: "Show which settings apply to this note",
+  checkCallback: (checking) => {
+    const note = app.workspace.getActiveFile();
+    if (!note || note.extension !== "md") return false;
+    if (!checking) new NoteSettingsModal(app, note.path, explainNoteSettings(app, settings, note.path)).open();
+    return true;
+  },
+});
+
+class NoteSettingsModal extends Modal {
+  private notePath: string;
+  private explanation: NoteSettingsExplanation;
+
+  constructor(app: App, notePath: string, explanation: NoteSettingsExplanation) {
+    super(app);
+    this.notePath = notePath;
+    this.explanation = explanation;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { folderRule, noteOverrides, errors, settings } = this.explanation;
+    this.titleEl.setText(`S3agle settings for ${this.notePath}`);
+
+    contentEl.createEl("p", {
+      text: folderRule
+        ? `Folder rule ${folderRule.index + 1} (${folderRule.rule.folders}) applies to this note.`
+        : "No folder rule matches this note.",
+    });
+
+    const source = (fields: (keyof S3agleSettings)[]): string => {
+      if (fields.some((field) => field in noteOverrides)) return "frontmatter";
+      if (folderRule && fields.some((field) => field in folderRule.overrides)) return `folder rule ${folderRule.index + 1}`;
+      return "plugin settings";
+    };
+    const listEl = contentEl.createEl("ul");
+    for (const { label, fields, describe } of SUMMARY) {
+      listEl.createEl("li", { text: `${label}: ${describe(settings)} (from ${source(fields)})` });
+    }
+
+    if (!errors.length) return;
+    contentEl.createEl("p", { text: "These settings are ignored:" });
+    const errorsEl = contentEl.createEl("ul", { cls: "mod-warning" });
+    errors.forEach((error) => errorsEl.createEl("li", { text: error }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,84 @@
+import { App, Command, FuzzySuggestModal, Modal, Notice } from "obsidian";
+import { AttachmentIndex } from "../attachments/attachmentIndex";
+import { AttachmentEntry } from "../types";
+import { formatFileSize } from "../helpers";
+
+export const findAttachmentUsageCommand = (app: App, index: AttachmentIndex): Command => ({
+  id: "find-attachment-usage",
+  name: "Find where an uploaded file is used",
+  callback: () => {
+    if (!Object.keys(index.entries).length) {
+      new Notice("S3agle: No uploaded files have been recorded yet.");
+      return;
+    }
+    new AttachmentSuggestModal(app, index).open();
+  },
+});
+
+class AttachmentSuggestModal extends FuzzySuggestModal<AttachmentEntry> {
+  private index: AttachmentIndex;
+
+  constructor(app: App, index: AttachmentIndex) {
+    super(app);
+    this.index = index;
+    this.setPlaceholder("Uploaded file…");
+  }
+
+  getItems(): AttachmentEntry[] {
+    return Object.values(this.index.entries).sort((a, b) => b.uploadedAt - a.uploadedAt);
+  }
+
+  getItemText(entry: AttachmentEntry): string {
+    return `${entry.fileName} (${formatFileSize(entry.size)}) ${entry.link}`;
+  }
+
+  async onChooseItem(entry: AttachmentEntry): Promise<void> {
+    try {
+      const notes = await this.index.findUsage(entry);
+      new AttachmentUsageModal(this.app, entry, notes).open();
+    } catch (error) {
+      console.error("Error finding attachment usage:", error);
+      new Notice("S3agle: Failed to look for notes using the file. Check the console for details.");
+    }
+  }
+}
+
+class AttachmentUsageModal extends Modal {
+  private entry: AttachmentEntry;
+  private notes: string[];
+
+  constructor(app: App, entry: AttachmentEntry, notes: string[]) {
+    super(app);
+    this.entry = entry;
+    this.notes = notes;
+  }
+
+  onOpen() {
+    const { contentEl, entry } = this;
+    this.titleEl.setText(entry.fileName);
+
+    const details = contentEl.createEl("ul");
+    details.createEl("li", { text: `${formatFileSize(entry.size)}, ${entry.mimeType || "unknown type"}, uploaded ${new Date(entry.uploadedAt).toLocaleString()}` });
+    if (entry.s3Key) details.createEl("li", { text: `S3 key: ${entry.s3Key}` });
+    if (entry.eagleItemId) details.createEl("li", { text: `Eagle item: ${entry.eagleItemId}` });
+    if (entry.vaultPath) details.createEl("li", { text: `Vault: ${entry.vaultPath}` });
+
+    if (!this.notes.length) {
+      contentEl.createEl("p", { text: "No note links to this file." });
+      return;
+    }
+    contentEl.createEl("p", { text: `Used in ${this.notes.length} note(s):` });
+    const listEl = contentEl.createEl("ul", { cls: "s3agle-review-list" });
+    for (const notePath of this.notes) {
+      listEl.createEl("li").createEl("a", { text: notePath, href: "#" }).addEventListener("click", (event) => {
+        event.preventDefault();
+        this.app.workspace.openLinkText(notePath, "", false);
+        this.close();
+      });
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,158 @@
+import { App, Command, DropdownComponent, Editor, Modal, Notice, TextComponent, debounce } from "obsidian";
+import type S3aglePlugin from "../main";
+import { S3agleSettings } from "../settings";
+import { EagleItem } from "../types";
+import { getLocalResourceUrl, getObsidianMimeType, replaceInNote } from "../helpers";
+import { generateFilePreview, getDestinations } from "../processFile";
+import { getNoteSettings } from "../noteSettings";
+import { createJobId, uploadPlaceholder } from "../queue/uploadQueue";
+import { eagleBackend } from "../eagle/eagleBackend";
+import { getEagleItemLink } from "../eagle/eagleItemLink";
+import { getEagleItemThumbnailPath } from "../eagle/getEagleItemInfo";
+import { EagleItemFilters, listEagleItems } from "../eagle/listEagleItems";
+import { flattenEagleFolders, listEagleFolders } from "../eagle/listEagleFolders";
+
+type InsertMode = "link" | "upload";
+
+export const insertEagleItemCommand = (plugin: S3aglePlugin): Command => ({
+  id: "insert-eagle-item",
+  name: "Insert an item from Eagle",
+  editorCallback: (editor, view) => {
+    const notePath = view.file?.path;
+    if (!notePath) return;
+    new EagleBrowserModal(plugin.app, plugin.settings, (item, mode) => {
+      insertEagleItem(plugin, editor, notePath, item, mode).catch((error) => {
+        console.error("Error inserting Eagle item:", error);
+        new Notice(`S3agle: ${error.message}`);
+      });
+    }).open();
+  },
+});
+
+// Put a link to the item in the note, or a copy of the file uploaded to the other destinations through the upload queue
+const insertEagleItem = async (plugin: S3aglePlugin, editor: Editor, notePath: string, item: EagleItem, mode: InsertMode): Promise<void> => {
+  const { app, settings } = plugin;
+  const fileName = `${item.name}.${item.ext}`;
+  const link = getEagleItemLink(item.id);
+
+  if (mode === "link") {
+    const file = new File([], fileName, { type: getObsidianMimeType(item.ext.toLowerCase()) });
+    editor.replaceSelection(generateFilePreview(file, getNoteSettings(app, settings, notePath), { [eagleBackend.id]: link }));
+    return;
+  }
+
+  const id = createJobId();
+  const placeholder = uploadPlaceholder(id, `Uploading ${fileName}…`);
+  editor.replaceSelection(placeholder);
+  try {
+    const destinations = getDestinations(getNoteSettings(app, settings, notePath)).filter((backendId) => backendId !== eagleBackend.id);
+    if (!destinations.length) throw new Error("Enable S3 or the vault to upload Eagle items.");
+
+    const data = await eagleBackend.download(link, { app, settings });
+    const file = new File([data], fileName, { type: getObsidianMimeType(item.ext.toLowerCase()) });
+    await plugin.uploadQueue.enqueue(id, file, notePath, destinations);
+  } catch (error) {
+    await replaceInNote(app, notePath, placeholder, `![Error uploading ${fileName}]`);
+    throw error;
+  }
+};
+
+class EagleBrowserModal extends Modal {
+  private settings: S3agleSettings;
+  private onChoose: (item: EagleItem, mode: InsertMode) => void;
+  private filters: EagleItemFilters = {};
+  private mode: InsertMode = "link";
+  private statusEl: HTMLElement;
+  private gridEl: HTMLElement;
+  // Responses to older searches are dropped when a newer one has started
+  private searchId = 0;
+
+  constructor(app: App, settings: S3agleSettings, onChoose: (item: EagleItem, mode: InsertMode) => void) {
+    super(app);
+    this.settings = settings;
+    this.onChoose = onChoose;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Insert from Eagle");
+    this.modalEl.addClass("s3agle-eagle-browser");
+
+    const filtersEl = contentEl.createDiv({ cls: "s3agle-eagle-filters" });
+    const search = debounce(() => this.search(), 300, true);
+    const keyword = new TextComponent(filtersEl).setPlaceholder("Search").onChange((value) => {
+      this.filters.keyword = value.trim();
+      search();
+    });
+    new TextComponent(filtersEl).setPlaceholder("Tags, comma separated").onChange((value) => {
+      this.filters.tags = value.split(",").map((tag) => tag.trim()).filter(Boolean);
+      search();
+    });
+    new TextComponent(filtersEl).setPlaceholder("Extension").onChange((value) => {
+      this.filters.ext = value.trim().toLowerCase();
+      search();
+    });
+    const folders = new DropdownComponent(filtersEl).addOption("", "All folders").onChange((value) => {
+      this.filters.folderId = value;
+      this.search();
+    });
+    listEagleFolders(this.settings)
+      .then((tree) => flattenEagleFolders(tree).forEach(({ id, path }) => folders.addOption(id, path)))
+      .catch((error) => console.error("Error listing Eagle folders:", error));
+
+    const canUpload = getDestinations(this.settings).some((backendId) => backendId !== eagleBackend.id);
+    if (canUpload) {
+      new DropdownComponent(filtersEl)
+        .addOption("link", "Link to the Eagle item")
+        .addOption("upload", "Upload a copy and link to it")
+        .setValue(this.mode)
+        .onChange((value: InsertMode) => (this.mode = value));
+    }
+
+    this.statusEl = contentEl.createEl("p", { cls: "s3agle-eagle-status" });
+    this.gridEl = contentEl.createDiv({ cls: "s3agle-eagle-grid" });
+    keyword.inputEl.focus();
+    this.search();
+  }
+
+  private async search(): Promise<void> {
+    const searchId = ++this.searchId;
+    this.statusEl.setText("Searching…");
+    try {
+      const items = await listEagleItems(this.settings, this.filters);
+      if (searchId !== this.searchId) return;
+      this.statusEl.setText(items.length ? "" : "No items found.");
+      this.gridEl.empty();
+      items.forEach((item) => this.drawItem(item));
+    } catch (error) {
+      if (searchId !== this.searchId) return;
+      console.error("Error searching Eagle:", error);
+      this.statusEl.setText(`Failed to search Eagle: ${error.message}`);
+      this.gridEl.empty();
+    }
+  }
+
+  private drawItem(item: EagleItem): void {
+    const itemEl = this.gridEl.createDiv({ cls: "s3agle-eagle-item", attr: { title: item.tags.join(", ") } });
+    const thumbnailEl = itemEl.createDiv({ cls: "s3agle-eagle-thumbnail", text: item.ext.toUpperCase() });
+    itemEl.createDiv({ cls: "s3agle-eagle-name", text: `${item.name}.${item.ext}` });
+    itemEl.addEventListener("click", () => {
+      this.onChoose(item, this.mode);
+      this.close();
+    });
+
+    getEagleItemThumbnailPath(item.id, this.settings)
+      .then((thumbnailPath) => {
+        thumbnailEl.empty();
+        thumbnailEl.createEl("img", { attr: { src: getLocalResourceUrl(thumbnailPath), alt: item.name } });
+      })
+      .catch(() => {
+        // Not every item has a thumbnail, the extension stays in its place
+      });
+  }
+
+  onClose() {
+    this.searchId++;
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,232 @@
+import { App, Command, DropdownComponent, Modal, Notice, Setting, TFile } from "obsidian";
+import { CopyObjectCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { S3agleSettings } from "../settings";
+import { createReportNote, replaceS3FileLinks } from "../helpers";
+import { createS3Client } from "../s3/createS3Client";
+import { collectVaultS3Links } from "../s3/collectVaultS3Links";
+import { getCopySource } from "../s3/moveS3Objects";
+import { getS3BaseUrl, getS3KeyFromUrl, getS3ObjectUrl, getS3Reference, isEncryptedS3Reference } from "../s3/s3ObjectUrl";
+import { applyS3Profile, haveSameS3Links } from "../s3/s3Profiles";
+
+const CURRENT_SETTINGS = "";
+
+type MigrationOptions = {
+  from: S3agleSettings;
+  to: S3agleSettings;
+  copyObjects: boolean;
+};
+
+type MigrationSummary = {
+  copied: string[];
+  skipped: string[]; // Already in the target bucket
+  failed: string[];
+  rewrites: Map<string, number>; // Links rewritten per note
+};
+
+export const migrateBucketCommand = (app: App, settings: S3agleSettings): Command => ({
+  id: "migrate-bucket",
+  name: "Migrate files and links to another bucket or endpoint",
+  callback: () => {
+    if (!settings.s3Profiles.length) {
+      new Notice("S3agle: Save the old or new bucket as a bucket profile in the S3 settings first.");
+      return;
+    }
+    new MigrationModal(app, settings).open();
+  },
+});
+
+// Server side copy only works when both buckets are on the same endpoint with the same credentials
+const canCopyServerSide = (from: S3agleSettings, to: S3agleSettings): boolean =>
+  from.s3Url === to.s3Url && from.s3Region === to.s3Region && from.accessKey === to.accessKey;
+
+const objectExists = async (settings: S3agleSettings, key: string): Promise<boolean> => {
+  try {
+    await createS3Client(settings).send(new HeadObjectCommand({ Bucket: settings.bucket, Key: key }));
+    return true;
+  } catch (error) {
+    if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) return false;
+    throw error;
+  }
+};
+
+const copyObject = async (from: S3agleSettings, to: S3agleSettings, key: string): Promise<void> => {
+  if (canCopyServerSide(from, to)) {
+    await createS3Client(to).send(new CopyObjectCommand({
+      Bucket: to.bucket,
+      Key: key,
+      CopySource: getCopySource(from.bucket, key),
+    }));
+    return;
+  }
+
+  // Different providers, so the object goes through Obsidian
+  const source = await createS3Client(from).send(new GetObjectCommand({ Bucket: from.bucket, Key: key }));
+  if (!source.Body) throw new Error(`S3 returned an empty body for ${key}.`);
+  await createS3Client(to).send(new PutObjectCommand({
+    Bucket: to.bucket,
+    Key: key,
+    Body: await source.Body.transformToByteArray(),
+    ContentType: source.ContentType,
+    Metadata: source.Metadata,
+  }));
+};
+
+const migrate = async (app: App, { from, to, copyObjects }: MigrationOptions): Promise<MigrationSummary> => {
+  const summary: MigrationSummary = { copied: [], skipped: [], failed: [], rewrites: new Map() };
+  const notes = await collectVaultS3Links(app, from);
+  const keys = new Set<string>();
+  for (const note of notes) {
+    for (const link of note.links) {
+      const key = getS3KeyFromUrl(link.path, from);
+      if (key) keys.add(key);
+    }
+  }
+
+  if (copyObjects) {
+    const progress = new Notice("", 0);
+    let index = 0;
+    for (const key of keys) {
+      progress.setMessage(`S3agle: Copying ${++index}/${keys.size}: ${key}`);
+      try {
+        if (await objectExists(to, key)) {
+          summary.skipped.push(key);
+        } else {
+          await copyObject(from, to, key);
+          summary.copied.push(key);
+        }
+      } catch (error) {
+        console.error("Error copying S3 object:", key, error);
+        summary.failed.push(key);
+      }
+    }
+    progress.hide();
+  }
+
+  // Links to objects that failed to copy keep pointing at the old bucket
+  for (const { notePath } of notes) {
+    const note = app.vault.getAbstractFileByPath(notePath);
+    if (!(note instanceof TFile)) continue;
+
+    await app.vault.process(note, (content) => {
+      const { text, count } = replaceS3FileLinks(content, getS3BaseUrl(from), (url) => {
+        const key = getS3KeyFromUrl(url, from);
+        if (!key || summary.failed.includes(key)) return null;
+        // Encrypted objects can only be shown through a reference, whatever the new bucket uses
+        const encrypted = isEncryptedS3Reference(url);
+        return to.s3PrivateLinks || encrypted ? getS3Reference(key, to, encrypted) : getS3ObjectUrl(key, to);
+      });
+      if (count) summary.rewrites.set(notePath, count);
+      return text;
+    });
+  }
+  return summary;
+};
+
+const buildSummaryReport = (from: S3agleSettings, to: S3agleSettings, copyObjects: boolean, summary: MigrationSummary): string => {
+  const linkCount = Array.from(summary.rewrites.values()).reduce((sum, count) => sum + count, 0);
+  const lines = [
+    "# S3agle bucket migration",
+    "",
+    `- From: \`${from.bucket}\` on \`${from.s3Url}\``,
+    `- To: \`${to.bucket}\` on \`${to.s3Url}\``,
+    copyObjects
+      ? `- Objects copied: ${summary.copied.length} (${canCopyServerSide(from, to) ? "server side" : "through Obsidian"}), already there: ${summary.skipped.length}, failed: ${summary.failed.length}`
+      : "- Objects were not copied",
+    `- Links rewritten: ${linkCount} in ${summary.rewrites.size} note(s)`,
+    "",
+    "## Notes",
+    "",
+    ...Array.from(summary.rewrites.entries()).map(([notePath, count]) => `- [[${notePath}]]: ${count} link(s)`),
+  ];
+  if (summary.failed.length) {
+    lines.push("", "## Failed to copy", "", "Links to these objects were left unchanged.", "");
+    lines.push(...summary.failed.map((key) => `- \`${key}\``));
+  }
+  return lines.join("\n") + "\n";
+};
+
+class MigrationModal extends Modal {
+  private settings: S3agleSettings;
+  private fromProfile = CURRENT_SETTINGS;
+  private toProfile = CURRENT_SETTINGS;
+  private copyObjects = true;
+
+  constructor(app: App, settings: S3agleSettings) {
+    super(app);
+    this.settings = settings;
+    this.fromProfile = settings.s3Profiles[settings.s3Profiles.length - 1].name;
+  }
+
+  private getSettings(profileName: string): S3agleSettings {
+    const profile = this.settings.s3Profiles.find((saved) => saved.name === profileName);
+    return profile ? applyS3Profile(this.settings, profile) : this.settings;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText("Migrate to another bucket or endpoint");
+    contentEl.createEl("p", {
+      text: "Links to the old bucket are rewritten in every note of the vault. Objects can be copied first, using a server side copy when both buckets are on the same endpoint.",
+    });
+
+    const addProfileOptions = (dropdown: DropdownComponent) => {
+      dropdown.addOption(CURRENT_SETTINGS, `Current settings (${this.settings.bucket})`);
+      this.settings.s3Profiles.forEach((profile) => dropdown.addOption(profile.name, profile.name));
+    };
+
+    new Setting(contentEl)
+      .setName("From")
+      .setDesc("Where the links currently point.")
+      .addDropdown((dropdown) => {
+        addProfileOptions(dropdown);
+        dropdown.setValue(this.fromProfile).onChange((value) => (this.fromProfile = value));
+      });
+
+    new Setting(contentEl)
+      .setName("To")
+      .setDesc("Where the links should point.")
+      .addDropdown((dropdown) => {
+        addProfileOptions(dropdown);
+        dropdown.setValue(this.toProfile).onChange((value) => (this.toProfile = value));
+      });
+
+    new Setting(contentEl)
+      .setName("Copy objects")
+      .setDesc("Copy every linked object to the new bucket before rewriting links. Turn off if the objects were already moved.")
+      .addToggle((toggle) => toggle.setValue(this.copyObjects).onChange((value) => (this.copyObjects = value)));
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Migrate")
+        .setCta()
+        .onClick(() => this.run()),
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async run() {
+    const from = this.getSettings(this.fromProfile);
+    const to = this.getSettings(this.toProfile);
+    if (haveSameS3Links(from, to)) {
+      new Notice("S3agle: Pick two different buckets or endpoints.");
+      return;
+    }
+    this.close();
+
+    try {
+      const summary = await migrate(this.app, { from, to, copyObjects: this.copyObjects });
+      const report = await createReportNote(this.app, "Bucket migration", buildSummaryReport(from, to, this.copyObjects, summary));
+      await this.app.workspace.getLeaf(true).openFile(report);
+      new Notice(
+        `S3agle: Rewrote links in ${summary.rewrites.size} note(s).` +
+          (summary.failed.length ? ` ${summary.failed.length} object(s) failed to copy, see the report.` : ""),
+      );
+    } catch (error) {
+      console.error("Error migrating bucket:", error);
+      new Notice("S3agle: Migration failed. Check the console for details.");
+    }
+  }
+}
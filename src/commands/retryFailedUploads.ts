@@ -0,0 +1,11 @@
+import { Command, Notice } from "obsidian";
+import { UploadQueue } from "../queue/uploadQueue";
+
+export const retryFailedUploadsCommand = (queue: UploadQueue): Command => ({
+  id: "retry-failed-uploads",
+  name: "Retry failed uploads",
+  callback: async () => {
+    const count = await queue.retryFailed();
+    new Notice(count ? `S3agle: Retrying ${count} failed upload(s).` : "S3agle: No failed uploads to retry.");
+  },
+});
@@ -0,0 +1,23 @@
+import { App, Command, Notice } from "obsidian";
+import { EagleSync } from "../eagle/eagleSync";
+
+export const syncEagleMetadataCommand = (app: App, sync: EagleSync): Command => ({
+  id: "sync-eagle-metadata",
+  name: "Sync tags and annotations with Eagle",
+  callback: async () => {
+    const file = app.workspace.getActiveFile();
+    if (!file || file.extension !== "md") {
+      new Notice("S3agle: Open a note to sync with Eagle.");
+      return;
+    }
+
+    try {
+      const { pushed, pulled } = await sync.sync(file);
+      const callouts = pulled ? `, refreshed ${pulled} callout(s)` : "";
+      new Notice(`S3agle: Updated ${pushed} Eagle item(s)${callouts}.`);
+    } catch (error) {
+      console.error("Error syncing with Eagle:", error);
+      new Notice(`S3agle: Failed to sync with Eagle: ${error.message}`);
+    }
+  },
+});
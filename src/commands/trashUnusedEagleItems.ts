@@ -0,0 +1,175 @@
+import { App, Command, Modal, Notice, Setting, debounce } from "obsidian";
+import type S3aglePlugin from "../main";
+import { EAGLE_API_ITEM_MOVE_TO_TRASH_ENDPOINT } from "../constants";
+import { formatFileSize } from "../helpers";
+import { eagleBackend } from "../eagle/eagleBackend";
+import { eagleRequest } from "../eagle/eagleRequest";
+import { getEagleItemIdFromLink } from "../eagle/eagleItemLink";
+import { getEagleItemInfo } from "../eagle/getEagleItemInfo";
+import { AttachmentIndex } from "../attachments/attachmentIndex";
+
+type UnusedItem = { itemId: string; name: string; size?: number };
+
+export const trashUnusedEagleItemsCommand = (plugin: S3aglePlugin): Command => ({
+  id: "trash-unused-eagle-items",
+  name: "Find Eagle items that no note links to",
+  callback: () => findUnusedEagleItems(plugin),
+});
+
+const findUnusedEagleItems = async (plugin: S3aglePlugin) => {
+  const { app, settings, attachmentIndex, eagleItemTracker } = plugin;
+  new Notice("S3agle: Looking for unused Eagle items…");
+
+  try {
+    await eagleItemTracker.scanVault();
+
+    const uploaded = getUploadedEagleItems(attachmentIndex);
+
+    // Items in the Eagle folder are shown with what Eagle knows about them
+    const candidates = new Map(uploaded);
+    for (const object of await eagleBackend.list({ app, settings })) {
+      const itemId = getEagleItemIdFromLink(object.location);
+      if (itemId && uploaded.has(itemId)) candidates.set(itemId, { itemId, name: object.name, size: object.size });
+    }
+
+    const unused = Array.from(candidates.values()).filter((item) => !eagleItemTracker.isReferenced(item.itemId));
+    if (!unused.length) {
+      new Notice(`S3agle: All ${uploaded.size} Eagle items the plugin uploaded are linked from a note.`);
+      return;
+    }
+    new TrashEagleItemsModal(app, plugin, unused, `${unused.length} Eagle item(s) are not linked from any note.`).open();
+  } catch (error) {
+    console.error("Error finding unused Eagle items:", error);
+    new Notice(`S3agle: Failed to look for unused Eagle items: ${error.message}`);
+  }
+};
+
+// Only items the plugin uploaded, as recorded in the attachment index, never items added to Eagle some other way
+// or picked from the Eagle browser
+const getUploadedEagleItems = (attachmentIndex: AttachmentIndex): Map<string, UnusedItem> => {
+  const uploaded = new Map<string, UnusedItem>();
+  for (const entry of Object.values(attachmentIndex.entries)) {
+    if (entry.eagleItemId) uploaded.set(entry.eagleItemId, { itemId: entry.eagleItemId, name: entry.fileName, size: entry.size });
+  }
+  return uploaded;
+};
+
+// Name and size of an item from Eagle, nothing when it is gone from the library
+const findEagleItem = async (itemId: string, plugin: S3aglePlugin): Promise<UnusedItem | null> => {
+  try {
+    const item = await getEagleItemInfo(itemId, plugin.settings);
+    return { itemId, name: `${item.name}.${item.ext}`, size: item.size };
+  } catch (error) {
+    console.error("Error getting Eagle item:", itemId, error);
+    return null;
+  }
+};
+
+// Items of notes deleted close together, like a whole folder, are offered in one list
+const deletedNoteItems = new Set<string>();
+
+const offerDeletedNoteItems = debounce(async (plugin: S3aglePlugin) => {
+  const pending = Array.from(deletedNoteItems);
+  deletedNoteItems.clear();
+
+  const uploaded = getUploadedEagleItems(plugin.attachmentIndex);
+  const items: UnusedItem[] = [];
+  for (const itemId of pending) {
+    // Not uploaded by the plugin, linked again in the meantime, or already gone from Eagle
+    if (!uploaded.has(itemId) || plugin.eagleItemTracker.isReferenced(itemId)) continue;
+    const item = await findEagleItem(itemId, plugin);
+    if (item) items.push(item);
+  }
+  if (items.length) {
+    new TrashEagleItemsModal(plugin.app, plugin, items, "Deleted notes linked to these Eagle items, and no other note does.").open();
+  }
+}, 1000, true);
+
+// Offer to trash the items of a deleted note that no other note links to
+export const offerToTrashEagleItems = (plugin: S3aglePlugin, itemIds: string[]): void => {
+  itemIds.forEach((itemId) => deletedNoteItems.add(itemId));
+  offerDeletedNoteItems(plugin);
+};
+
+class TrashEagleItemsModal extends Modal {
+  private plugin: S3aglePlugin;
+  private items: UnusedItem[];
+  private description: string;
+  private selected: Set<string>;
+
+  constructor(app: App, plugin: S3aglePlugin, items: UnusedItem[], description: string) {
+    super(app);
+    this.plugin = plugin;
+    this.items = items;
+    this.description = description;
+    // Nothing is trashed unless it is picked in the list
+    this.selected = new Set();
+  }
+
+  onOpen() {
+    this.titleEl.setText("Unused Eagle items");
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("p", { text: `${this.description} Review them before moving anything to the Eagle trash.` });
+
+    new Setting(contentEl)
+      .setName("Select all")
+      .addToggle((toggle) =>
+        toggle.setValue(this.selected.size === this.items.length).onChange((value) => {
+          this.selected = new Set(value ? this.items.map((item) => item.itemId) : []);
+          this.render();
+        }),
+      );
+
+    const listEl = contentEl.createDiv({ cls: "s3agle-review-list" });
+    for (const item of this.items) {
+      new Setting(listEl)
+        .setName(item.name)
+        .setDesc(item.size !== undefined ? formatFileSize(item.size) : "")
+        .addToggle((toggle) =>
+          toggle.setValue(this.selected.has(item.itemId)).onChange((value) => {
+            if (value) this.selected.add(item.itemId);
+            else this.selected.delete(item.itemId);
+          }),
+        );
+    }
+
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("Keep all").onClick(() => this.close()))
+      .addButton((button) =>
+        button
+          .setButtonText("Move to Eagle trash")
+          .setWarning()
+          .onClick(() => this.trashSelected()),
+      );
+  }
+
+  private async trashSelected() {
+    const itemIds = Array.from(this.selected);
+    if (!itemIds.length) {
+      new Notice("S3agle: No items selected.");
+      return;
+    }
+    this.close();
+
+    try {
+      await eagleRequest(this.plugin.settings, EAGLE_API_ITEM_MOVE_TO_TRASH_ENDPOINT, {
+        method: "POST",
+        body: { itemIds },
+      });
+      await this.plugin.attachmentIndex.removeEagleItems(itemIds);
+      new Notice(`S3agle: Moved ${itemIds.length} item(s) to the Eagle trash.`);
+    } catch (error) {
+      console.error("Error moving Eagle items to trash:", error);
+      new Notice(`S3agle: Failed to move items to the Eagle trash: ${error.message}`);
+    }
+  }
+}
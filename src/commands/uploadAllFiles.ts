@@ -2,14 +2,16 @@ import { App, Command, Notice, TFile } from "obsidian";
 import { extractLocalFileLinks, getNoteContent, getObsidianMimeType, hashFile, sanitizeFileName } from "../helpers";
 import { processFile } from "../processFile";
 import { S3agleSettings } from "../settings";
+import { AttachmentIndex } from "../attachments/attachmentIndex";
+import { getNoteSettings } from "../noteSettings";
 
-export const uploadAllFilesCommand = (app: App, settings: S3agleSettings): Command => ({
+export const uploadAllFilesCommand = (app: App, settings: S3agleSettings, index: AttachmentIndex): Command => ({
   id: "upload-all-files",
   name: "Upload ALL files in document to S3/Eagle",
-  callback: () => uploadAllFiles(app, settings),
+  callback: () => uploadAllFiles(app, settings, index),
 });
 
-const uploadAllFiles = async (app: App, settings: S3agleSettings) => {
+const uploadAllFiles = async (app: App, settings: S3agleSettings, index: AttachmentIndex) => {
   const uploads: Promise<void>[] = [];
   const uploadsLocalFallback: Promise<void>[] = [];
   const editor = app.workspace.activeEditor?.editor;
@@ -21,6 +23,7 @@ const uploadAllFiles = async (app: App, settings: S3agleSettings) => {
     const fileReferences = await extractLocalFileLinks(noteContent, app);
 
     if (!fileReferences.length) throw new Error("No file references found.");
+    const noteSettings = getNoteSettings(app, settings, app.workspace.getActiveFile()?.path);
 
     for (const fileReference of fileReferences) {
       const filePath = fileReference.path;
@@ -31,14 +34,14 @@ const uploadAllFiles = async (app: App, settings: S3agleSettings) => {
         const blob = await app.vault.readBinary(file);
         const fileToUpload = new File(
           [blob],
-          settings.hashFileName ? await hashFile(new File([blob], file.name), settings.hashSeed) : sanitizeFileName(file.name),
+          noteSettings.hashFileName ? await hashFile(new File([blob], file.name), noteSettings.hashSeed) : sanitizeFileName(file.name),
           { type: getObsidianMimeType(file.extension) }
         );
 
-        if (settings.useS3 || settings.useEagle) {
-          uploads.push(processFile(fileToUpload, settings, app, placeholder));
+        if (noteSettings.useS3 || noteSettings.useEagle) {
+          uploads.push(processFile(fileToUpload, settings, app, placeholder, index));
         } else if (!settings.localUpload) {
-          uploadsLocalFallback.push(processFile(fileToUpload, settings, app, placeholder));
+          uploadsLocalFallback.push(processFile(fileToUpload, settings, app, placeholder, index));
         }
       }
     }
@@ -0,0 +1,232 @@
+import { App, Command, Notice, TFile } from "obsidian";
+import {
+  createReportNote,
+  extractLocalFileLinks,
+  formatFileSize,
+  getObsidianMimeType,
+  getSurroundingParagraph,
+  hashContent,
+  hashFile,
+  readNote,
+  sanitizeFileName,
+} from "../helpers";
+import { generateFilePreview, getDestinations, prepareFile, uploadManyToDestinations } from "../processFile";
+import { UploadResults } from "../types";
+import { S3agleSettings } from "../settings";
+import { getStorageBackend } from "../storage/storageBackend";
+import { vaultBackend } from "../vault/vaultBackend";
+import { FolderSuggestModal } from "../modals/folderSuggestModal";
+import { AttachmentIndex } from "../attachments/attachmentIndex";
+import { getNoteSettings } from "../noteSettings";
+
+// Files uploaded together, small enough that a failed batch doesn't cost much
+const BATCH_SIZE = 20;
+
+type PlannedUpload = {
+  file: TFile;
+  references: { notePath: string; reference: string }[];
+  // From the first note that embeds the file
+  settings: S3agleSettings;
+  destinations: string[];
+};
+
+export const uploadVaultFilesCommand = (app: App, settings: S3agleSettings, index: AttachmentIndex): Command => ({
+  id: "upload-vault-files",
+  name: "Upload ALL files in the vault or a folder to S3/Eagle",
+  callback: () =>
+    new FolderSuggestModal(app, "Folder to upload attachments from…", (folder) =>
+      uploadVaultFiles(app, settings, index, folder.path, false),
+    ).open(),
+});
+
+export const uploadVaultFilesDryRunCommand = (app: App, settings: S3agleSettings, index: AttachmentIndex): Command => ({
+  id: "upload-vault-files-dry-run",
+  name: "Dry run: upload ALL files in the vault or a folder to S3/Eagle",
+  callback: () =>
+    new FolderSuggestModal(app, "Folder to plan the upload for…", (folder) =>
+      uploadVaultFiles(app, settings, index, folder.path, true),
+    ).open(),
+});
+
+// The files are already in the vault, so only the other destinations make sense
+const getUploadDestinations = (settings: S3agleSettings): string[] => getDestinations(settings).filter((id) => id !== vaultBackend.id);
+
+// Every local attachment embedded in the notes under folderPath, listed once with all the notes that embed it
+const planUploads = async (app: App, settings: S3agleSettings, folderPath: string): Promise<{ uploads: PlannedUpload[]; noteCount: number }> => {
+  const prefix = folderPath === "/" ? "" : folderPath + "/";
+  const notes = app.vault.getMarkdownFiles().filter((note) => note.path.startsWith(prefix));
+  const planned = new Map<string, PlannedUpload>();
+
+  for (const note of notes) {
+    // Notes that should stay local keep their attachments
+    const noteSettings = getNoteSettings(app, settings, note.path);
+    const destinations = getUploadDestinations(noteSettings);
+    if (!destinations.length) continue;
+
+    const references = await extractLocalFileLinks(await app.vault.cachedRead(note), app, note.path);
+    for (const reference of references) {
+      const file = app.vault.getAbstractFileByPath(reference.path);
+      if (!(file instanceof TFile) || file.extension === "md") continue;
+
+      const upload = planned.get(file.path) || { file, references: [], settings: noteSettings, destinations };
+      if (!upload.references.some((existing) => existing.notePath === note.path && existing.reference === reference.reference)) {
+        upload.references.push({ notePath: note.path, reference: reference.reference });
+      }
+      planned.set(file.path, upload);
+    }
+  }
+  return { uploads: Array.from(planned.values()), noteCount: notes.length };
+};
+
+const uploadVaultFiles = async (
+  app: App,
+  settings: S3agleSettings,
+  index: AttachmentIndex,
+  folderPath: string,
+  dryRun: boolean,
+) => {
+  // Each note uploads to its own destinations, so folder rules and frontmatter can enable S3 or Eagle
+  const { uploads, noteCount } = await planUploads(app, settings, folderPath);
+  if (!uploads.length) {
+    new Notice("S3agle: No local attachments found in notes that upload to S3 or Eagle.");
+    return;
+  }
+
+  if (dryRun) {
+    const report = await createReportNote(app, "Upload plan", buildPlanReport(folderPath, noteCount, uploads));
+    await app.workspace.getLeaf(true).openFile(report);
+    return;
+  }
+
+  const progress = new Notice("", 0);
+  const rewrites = new Map<string, { reference: string; preview: string }[]>();
+  const failed: string[] = [];
+
+  // Files go out in batches, so Eagle imports a batch in one request per folder
+  for (let start = 0; start < uploads.length; start += BATCH_SIZE) {
+    const batch = uploads.slice(start, start + BATCH_SIZE);
+    progress.setMessage(`S3agle: Uploading ${start + 1}-${start + batch.length}/${uploads.length}…`);
+
+    const prepared: { upload: PlannedUpload; file: File; hash: string; results: UploadResults; paragraph: string }[] = [];
+    for (const upload of batch) {
+      const { settings, destinations } = upload;
+      try {
+        const blob = await app.vault.readBinary(upload.file);
+        const fileToUpload = await prepareFile(new File(
+          [blob],
+          settings.hashFileName ? await hashFile(new File([blob], upload.file.name), settings.hashSeed) : sanitizeFileName(upload.file.name),
+          { type: getObsidianMimeType(upload.file.extension) },
+        ), settings);
+        const hash = hashContent(await fileToUpload.arrayBuffer());
+        // Eagle records the first note that embeds the file as where it came from
+        const [{ notePath, reference }] = upload.references;
+        prepared.push({
+          upload,
+          file: fileToUpload,
+          hash,
+          results: await index.getKnownLocations(hash, destinations, settings),
+          paragraph: getSurroundingParagraph(await readNote(app, notePath), reference),
+        });
+      } catch (error) {
+        console.error("Error preparing vault file:", upload.file.path, error);
+        failed.push(upload.file.path);
+      }
+    }
+
+    const outcomes = await uploadManyToDestinations(
+      prepared.map(({ upload, file, results, paragraph }) => ({
+        file,
+        settings: upload.settings,
+        destinations: upload.destinations,
+        options: { results, note: { path: upload.references[0].notePath, paragraph } },
+      })),
+      app,
+    );
+
+    for (const [position, { upload, file, hash }] of prepared.entries()) {
+      const results = outcomes[position];
+      if (results instanceof Error) {
+        console.error("Error uploading vault file:", upload.file.path, results);
+        failed.push(upload.file.path);
+        continue;
+      }
+      await index.record(file, hash, results, upload.references.map((reference) => reference.notePath));
+
+      // Each note links to the file in its own embed style
+      for (const { notePath, reference } of upload.references) {
+        const preview = generateFilePreview(file, getNoteSettings(app, settings, notePath), results);
+        const noteRewrites = rewrites.get(notePath) || [];
+        noteRewrites.push({ reference, preview });
+        rewrites.set(notePath, noteRewrites);
+      }
+    }
+  }
+
+  // Each note is rewritten once, with the links of all its uploaded attachments
+  progress.setMessage("S3agle: Updating links…");
+  let rewrittenLinks = 0;
+  for (const [notePath, noteRewrites] of rewrites) {
+    const note = app.vault.getAbstractFileByPath(notePath);
+    if (!(note instanceof TFile)) continue;
+    await app.vault.process(note, (content) =>
+      noteRewrites.reduce((text, { reference, preview }) => {
+        const parts = text.split(reference);
+        rewrittenLinks += parts.length - 1;
+        return parts.join(preview);
+      }, content),
+    );
+  }
+  progress.hide();
+
+  new Notice(
+    `S3agle: Uploaded ${uploads.length - failed.length} file(s) and updated ${rewrittenLinks} link(s) in ${rewrites.size} note(s).` +
+      (failed.length ? ` ${failed.length} file(s) failed, check the console for details.` : ""),
+  );
+};
+
+const buildPlanReport = (
+  folderPath: string,
+  noteCount: number,
+  uploads: PlannedUpload[],
+): string => {
+  const destinations = Array.from(new Set(uploads.flatMap((upload) => upload.destinations)));
+  const destinationNames = destinations.map((id) => getStorageBackend(id)?.name || id).join(", ");
+  const totalSize = uploads.reduce((sum, upload) => sum + upload.file.stat.size, 0);
+  const lines = [
+    "# S3agle upload plan",
+    "",
+    "Nothing has been uploaded yet. Run the upload command without dry run to apply this plan.",
+    "",
+    `- Scope: \`${folderPath}\``,
+    `- Notes scanned: ${noteCount}`,
+    `- Attachments to upload: ${uploads.length} (${formatFileSize(totalSize)})`,
+    `- Destinations: ${destinationNames}`,
+    "",
+    "## Uploads",
+    "",
+    "| Attachment | Size | Linked from |",
+    "| --- | --- | --- |",
+    ...uploads.map((upload) => {
+      const notes = Array.from(new Set(upload.references.map((reference) => `[[${reference.notePath}]]`)));
+      return `| \`${upload.file.path}\` | ${formatFileSize(upload.file.stat.size)} | ${notes.join(", ")} |`;
+    }),
+    "",
+    "## Link rewrites",
+  ];
+
+  const referencesByNote = new Map<string, { reference: string; filePath: string }[]>();
+  for (const upload of uploads) {
+    for (const { notePath, reference } of upload.references) {
+      const noteReferences = referencesByNote.get(notePath) || [];
+      noteReferences.push({ reference, filePath: upload.file.path });
+      referencesByNote.set(notePath, noteReferences);
+    }
+  }
+  for (const [notePath, noteReferences] of referencesByNote) {
+    lines.push("", `### [[${notePath}]]`, "");
+    for (const { reference, filePath } of noteReferences) {
+      lines.push(`- \`${reference}\` → uploaded link for \`${filePath}\``);
+    }
+  }
+  return lines.join("\n") + "\n";
+};
@@ -1,43 +1,38 @@
 import { Folder } from "../types"
 import { EAGLE_API_CREATE_FOLDER_ENDPOINT } from "../constants"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
 
-//Create a folder in Eagle
-export const createEagleFolder = async (
+// Folders being created by library, parent and name, so imports running side by side don't create the same folder twice
+const pendingFolders = new Map<string, Promise<string | null>>()
+
+//Create a folder in Eagle, in the library at libraryPath which has to be open
+export const createEagleFolder = (
   folderName: string,
   parentId: string,
-  eagleApiUrl: string,
+  libraryPath: string,
+  eagle: EagleConnection,
 ): Promise<string | null> => {
-  try {
-    let safeEagleApiUrl = eagleApiUrl
-    if (safeEagleApiUrl.endsWith("/")) {
-      //remove trailing slash
-      safeEagleApiUrl = safeEagleApiUrl.slice(0, -1)
-    }
+  const key = `${libraryPath}|${parentId}/${folderName}`
+  let pending = pendingFolders.get(key)
+  if (!pending) {
+    pending = requestFolder(folderName, parentId, eagle).finally(() => pendingFolders.delete(key))
+    pendingFolders.set(key, pending)
+  }
+  return pending
+}
 
+const requestFolder = async (folderName: string, parentId: string, eagle: EagleConnection): Promise<string | null> => {
+  try {
     const data = {
       folderName,
       parent: parentId,
     }
 
-    const response = await fetch(safeEagleApiUrl + EAGLE_API_CREATE_FOLDER_ENDPOINT, {
-      method: "POST",
-      body: JSON.stringify(data),
-    })
-
-    if (!response.ok) {
-      throw new Error("Failed to create folder in Eagle.")
-    }
-
-    interface expectedResponse {
-      status: string
-      data: Folder
-    }
-
-    const dataObject: expectedResponse = await response.json()
+    const folder = await eagleRequest<Folder>(eagle, EAGLE_API_CREATE_FOLDER_ENDPOINT, { method: "POST", body: data })
 
-    return dataObject.data.id || null
+    return folder.id || null
   } catch (error) {
     console.error("Failed to create folder in Eagle:", error)
     return null
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,174 @@
+import { promises as fs } from "fs"
+import { StorageBackend, UploadContext, getStorageBackend } from "../storage/storageBackend"
+import { saveFileToVault } from "../vault/saveFileToVault"
+import { getAbsoluteVaultPath, isWebUrl } from "../helpers"
+import { EAGLE_API_ITEM_LIST_ENDPOINT, EAGLE_API_ITEM_MOVE_TO_TRASH_ENDPOINT } from "../constants"
+import { EagleItem } from "../types"
+import { EagleBatchItem, EagleImport, uploadManyToEagle, uploadToEagle, waitForEagleImport } from "./uploadToEagle"
+import { EagleSubmission } from "./getEagleItemId"
+import { eagleRequest } from "./eagleRequest"
+import { getEagleFolderId } from "./getEagleFolderId"
+import { getEagleItemFilePath, getEagleItemInfo } from "./getEagleItemInfo"
+import { getEagleItemIdFromLink, getEagleItemLink } from "./eagleItemLink"
+import { buildEagleMetadata } from "./eagleMetadata"
+import { getEagleFolderPath, getEagleFolderPrefix } from "./eagleFolderPath"
+import { withEagleLibrary } from "./eagleLibrary"
+import { isEagleAvailable } from "./eagleStatus"
+import { toEaglePath } from "./eaglePathMapping"
+import { isEncryptedS3Reference, parseS3Reference } from "../s3/s3ObjectUrl"
+import { getPresignedUrl } from "../s3/getPresignedUrl"
+
+// Eagle imports from a web URL or a file on disk, so reuse what the backends before it produced
+const getEagleImport = async (file: File, context: UploadContext): Promise<EagleImport> => {
+  const { app, settings, results, stashPath, note } = context
+  const folderPath = getEagleFolderPath(app, settings, note)
+  const webUrl = Object.values(results).find(isWebUrl)
+  let fileUrl = webUrl || getLocalSource(context)
+  if (!fileUrl) {
+    // Save file to temp vault path if not saved to vault already
+    fileUrl = getAbsoluteVaultPath(app, stashPath || await saveFileToVault(file, settings, app, true))
+  }
+  if (!webUrl) fileUrl = toEaglePath(fileUrl, settings) || await getPresignedSource(context)
+  const metadata = buildEagleMetadata(app, settings, file.name, webUrl || "", note)
+  return { fileUrl, fileName: file.name, metadata, folderPath }
+}
+
+const getLocalSource = (context: UploadContext): string | null => {
+  for (const [backendId, location] of Object.entries(context.results)) {
+    const localPath = getStorageBackend(backendId)?.getLocalPath?.(location, context)
+    if (localPath) return localPath
+  }
+  return null
+}
+
+// Eagle on another computer can't read files on this one, so it gets a temporary link to the S3 copy instead
+const getPresignedSource = async ({ results, settings }: UploadContext): Promise<string> => {
+  const reference = Object.values(results).find((location) => parseS3Reference(location) && !isEncryptedS3Reference(location))
+  const object = reference && parseS3Reference(reference)
+  if (!object) {
+    throw new Error("Eagle runs on another computer and can't read this file. Add a path mapping for its folder, or upload it to S3 before Eagle.")
+  }
+  return getPresignedUrl(object.bucket, object.key, settings)
+}
+
+const getItemId = (location: string): string => {
+  const itemId = getEagleItemIdFromLink(location)
+  if (!itemId) throw new Error(`${location} is not an Eagle item link.`)
+  return itemId
+}
+
+export const eagleBackend: StorageBackend = {
+  id: "eagle",
+  name: "Eagle",
+
+  isEnabled: (settings) => settings.useEagle,
+
+  upload: async (file, context) => {
+    const { settings, pending } = context
+    const library = settings.eagleLibrary
+    // Eagle accepted the file on an earlier attempt, only wait for it again
+    const submitted = pending?.[eagleBackend.id] as EagleSubmission | undefined
+    let link: string
+    if (submitted) {
+      link = await withEagleLibrary(library, settings, () => waitForEagleImport(submitted, settings))
+    } else {
+      const { fileUrl, fileName, metadata, folderPath } = await getEagleImport(file, context)
+      link = await withEagleLibrary(library, settings, () =>
+        uploadToEagle(fileUrl, fileName, settings, metadata, folderPath, (submission) => {
+          if (pending) pending[eagleBackend.id] = submission
+        }),
+      )
+    }
+    if (pending) delete pending[eagleBackend.id]
+    return link
+  },
+
+  // Imports going to the same library are sent together, files Eagle accepted on an earlier attempt are only waited for
+  uploadMany: async (uploads) => {
+    const byLibrary = new Map<string, number[]>()
+    uploads.forEach(({ context }, position) => {
+      const library = context.settings.eagleLibrary
+      byLibrary.set(library, [...(byLibrary.get(library) || []), position])
+    })
+
+    const links: (string | Error)[] = []
+    for (const [library, positions] of byLibrary) {
+      const { settings } = uploads[positions[0]].context
+      const items = await Promise.all(positions.map(async (position): Promise<EagleBatchItem | Error> => {
+        const { file, context } = uploads[position]
+        const { pending } = context
+        const submitted = pending?.[eagleBackend.id] as EagleSubmission | undefined
+        if (submitted) return { submission: submitted }
+        try {
+          const onSubmitted = (submission: EagleSubmission) => {
+            if (pending) pending[eagleBackend.id] = submission
+          }
+          return { eagleImport: await getEagleImport(file, context), onSubmitted }
+        } catch (error) {
+          return error
+        }
+      }))
+
+      const ready = positions.filter((_, itemPosition) => !(items[itemPosition] instanceof Error))
+      items.forEach((item, itemPosition) => {
+        if (item instanceof Error) links[positions[itemPosition]] = item
+      })
+      let imported: (string | Error)[]
+      try {
+        const batch = items.filter((item): item is EagleBatchItem => !(item instanceof Error))
+        imported = await withEagleLibrary(library, settings, () => uploadManyToEagle(batch, settings))
+      } catch (error) {
+        imported = ready.map(() => error)
+      }
+      ready.forEach((position, readyPosition) => {
+        links[position] = imported[readyPosition]
+        if (!(imported[readyPosition] instanceof Error)) delete uploads[position].context.pending?.[eagleBackend.id]
+      })
+    }
+    return links
+  },
+
+  download: async (location, { settings }) => {
+    const item = await getEagleItemInfo(getItemId(location), settings)
+    return new Uint8Array(await fs.readFile(await getEagleItemFilePath(item, settings)))
+  },
+
+  delete: async (location, { settings }) => {
+    await eagleRequest(settings, EAGLE_API_ITEM_MOVE_TO_TRASH_ENDPOINT, {
+      method: "POST",
+      body: { itemIds: [getItemId(location)] },
+    })
+  },
+
+  exists: async (location, { settings }) => {
+    // Eagle being closed says nothing about the item, so don't let it look deleted
+    if (!(await isEagleAvailable(settings))) throw new Error("Eagle is not running.")
+    try {
+      await getEagleItemInfo(getItemId(location), settings)
+      return true
+    } catch (error) {
+      return false
+    }
+  },
+
+  // Items in the Eagle folder, or in the folder path given as prefix
+  list: async ({ settings }, prefix) => {
+    const folderId = await getEagleFolderId(prefix || getEagleFolderPrefix(settings), false, settings)
+    if (!folderId) return []
+
+    const items = await eagleRequest<EagleItem[]>(settings, EAGLE_API_ITEM_LIST_ENDPOINT, {
+      query: { folders: folderId, limit: "1000000" },
+    })
+    return items.map((item) => ({
+      location: getEagleItemLink(item.id),
+      name: `${item.name}.${item.ext}`,
+      size: item.size,
+    }))
+  },
+
+  isAvailable: ({ settings }) => isEagleAvailable(settings),
+
+  owns: (location) => location.startsWith("eagle://"),
+
+  drawSettings: (containerEl, tab) => tab.drawEagleSettings(containerEl),
+}
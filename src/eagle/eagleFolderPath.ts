@@ -0,0 +1,29 @@
+import { App, TFile } from "obsidian"
+import { S3agleSettings } from "../settings"
+import { NoteContext } from "../types"
+import { getDynamicFolderPath } from "../helpers"
+
+// Eagle folder path for a file added to a note, from the Eagle folder template.
+// ${noteFolder} and ${noteName} come from the note, ${year}, ${month} and ${day} from today,
+// and any other ${field} from the note frontmatter. Empty folders are dropped from the path
+export const getEagleFolderPath = (app: App, settings: S3agleSettings, note?: NoteContext): string => {
+  const noteFile = note && app.vault.getAbstractFileByPath(note.path)
+  const frontmatter = noteFile instanceof TFile ? app.metadataCache.getFileCache(noteFile)?.frontmatter : undefined
+
+  const variables: Record<string, string> = {
+    noteFolder: noteFile instanceof TFile && noteFile.parent && !noteFile.parent.isRoot() ? noteFile.parent.path : "",
+    noteName: noteFile instanceof TFile ? noteFile.basename : "",
+  }
+
+  const folderPath = getDynamicFolderPath(settings.eagleFolder || "").replace(/\$\{([\w-]+)\}/g, (match, name) => {
+    if (name in variables) return variables[name]
+    const value = frontmatter?.[name]
+    return value === undefined || value === null ? "" : String(value)
+  })
+  return folderPath.split("/").map((part) => part.trim()).filter(Boolean).join("/")
+}
+
+// Part of the Eagle folder that doesn't depend on the note or the date
+export const getEagleFolderPrefix = (settings: S3agleSettings): string => {
+  return (settings.eagleFolder || "").split("${")[0].split("/").filter(Boolean).join("/")
+}
@@ -0,0 +1,10 @@
+const EAGLE_ITEM_LINK_PREFIX = "eagle://item/"
+
+export const getEagleItemLink = (itemId: string): string => `${EAGLE_ITEM_LINK_PREFIX}${itemId}`
+
+// Item ID from an eagle://item/<id> link, or null for anything else
+export const getEagleItemIdFromLink = (link: string): string | null => {
+  if (!link.startsWith(EAGLE_ITEM_LINK_PREFIX)) return null
+  const itemId = link.slice(EAGLE_ITEM_LINK_PREFIX.length).split(/[/?#]/)[0]
+  return itemId || null
+}
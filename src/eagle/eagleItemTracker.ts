@@ -0,0 +1,55 @@
+import { TFile } from "obsidian"
+import type S3aglePlugin from "../main"
+import { findLinkedEagleItems } from "./linkedEagleItems"
+import { eagleBackend } from "./eagleBackend"
+import { getEagleItemIdFromLink } from "./eagleItemLink"
+
+/**
+ * Eagle item IDs linked from each note, kept in memory and rebuilt when the plugin loads.
+ * A deleted note can't be read any more, so this is how its items are found.
+ */
+export class EagleItemTracker {
+  private plugin: S3aglePlugin
+  private notes = new Map<string, Set<string>>()
+
+  constructor(plugin: S3aglePlugin) {
+    this.plugin = plugin
+  }
+
+  async scanVault(): Promise<void> {
+    this.notes.clear()
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) await this.update(file)
+  }
+
+  async update(file: TFile): Promise<void> {
+    const content = await this.plugin.app.vault.cachedRead(file)
+    const itemIds = findLinkedEagleItems(content, this.plugin.attachmentIndex).map((linked) => linked.itemId)
+    if (itemIds.length) this.notes.set(file.path, new Set(itemIds))
+    else this.notes.delete(file.path)
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const itemIds = this.notes.get(oldPath)
+    if (!itemIds) return
+    this.notes.delete(oldPath)
+    this.notes.set(newPath, itemIds)
+  }
+
+  // Forget a deleted note, returning its items that no other note links to
+  removeNote(notePath: string): string[] {
+    const itemIds = this.notes.get(notePath)
+    this.notes.delete(notePath)
+    return Array.from(itemIds || []).filter((itemId) => !this.isReferenced(itemId))
+  }
+
+  // Whether a note links to the item, or an upload waiting in the queue is going to
+  isReferenced(itemId: string): boolean {
+    for (const itemIds of this.notes.values()) {
+      if (itemIds.has(itemId)) return true
+    }
+    return this.plugin.uploadQueue.jobs.some((job) => {
+      const location = job.results[eagleBackend.id]
+      return location && getEagleItemIdFromLink(location) === itemId
+    })
+  }
+}
@@ -0,0 +1,81 @@
+import { S3agleSettings } from "../settings"
+import {
+  EAGLE_API_LIBRARY_HISTORY_ENDPOINT,
+  EAGLE_API_LIBRARY_INFO_ENDPOINT,
+  EAGLE_API_LIBRARY_SWITCH_ENDPOINT,
+} from "../constants"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
+
+export type EagleLibrary = {
+  name: string
+  path: string
+}
+
+const POLL_INTERVAL = 500
+const SWITCH_TIMEOUT = 30 * 1000
+
+// Imports that need a library hold it until they are done, so another upload can't switch away in between
+let libraryLock: Promise<unknown> = Promise.resolve()
+
+export const getEagleLibraryName = (libraryPath: string): string => {
+  return libraryPath.split(/[\\/]/).filter(Boolean).pop()?.replace(/\.library$/i, "") || libraryPath
+}
+
+const isSamePath = (a: string, b: string): boolean => {
+  const normalize = (path: string) => path.replace(/\\/g, "/").replace(/\/+$/, "")
+  return normalize(a) === normalize(b)
+}
+
+export const getActiveEagleLibrary = async (eagle: EagleConnection): Promise<EagleLibrary> => {
+  const info = await eagleRequest<{ library: EagleLibrary }>(eagle, EAGLE_API_LIBRARY_INFO_ENDPOINT)
+  return info.library
+}
+
+// Paths of the libraries Eagle opened recently, most recent first
+export const getRecentEagleLibraries = (eagle: EagleConnection): Promise<string[]> => {
+  return eagleRequest<string[]>(eagle, EAGLE_API_LIBRARY_HISTORY_ENDPOINT)
+}
+
+// Full path of a library given by path, or by name among the recently opened libraries
+const resolveLibraryPath = async (library: string, eagle: EagleConnection): Promise<string> => {
+  if (/[\\/]/.test(library)) return library
+  const recent = await getRecentEagleLibraries(eagle)
+  const libraryPath = recent.find((path) => getEagleLibraryName(path).toLowerCase() === library.toLowerCase())
+  if (!libraryPath) throw new Error(`The Eagle library "${library}" was not found in the recently opened libraries.`)
+  return libraryPath
+}
+
+// Make sure the library is open, switching to it when the settings allow. Otherwise the upload fails and the queue retries it later
+const openEagleLibrary = async (library: string, settings: S3agleSettings): Promise<void> => {
+  const libraryPath = await resolveLibraryPath(library, settings)
+  const active = await getActiveEagleLibrary(settings)
+  if (isSamePath(active.path, libraryPath)) return
+
+  const name = getEagleLibraryName(libraryPath)
+  if (!settings.eagleSwitchLibrary) {
+    throw new Error(`Eagle has the "${active.name}" library open, open "${name}" to import into it.`)
+  }
+  await eagleRequest(settings, EAGLE_API_LIBRARY_SWITCH_ENDPOINT, {
+    method: "POST",
+    body: { libraryPath },
+  })
+  // Eagle answers before the library has loaded
+  const deadline = Date.now() + SWITCH_TIMEOUT
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL))
+    const current = await getActiveEagleLibrary(settings).catch(() => null)
+    if (current && isSamePath(current.path, libraryPath)) return
+  }
+  throw new Error(`Eagle did not switch to the "${name}" library in time.`)
+}
+
+// Run an import with the library open, or in whichever library is open when none is set.
+// The lock is taken either way, so nothing runs while another import switches libraries
+export const withEagleLibrary = <T>(library: string, settings: S3agleSettings, run: () => Promise<T>): Promise<T> => {
+  const result = libraryLock.then(async () => {
+    if (library) await openEagleLibrary(library, settings)
+    return run()
+  })
+  libraryLock = result.catch(() => undefined)
+  return result
+}
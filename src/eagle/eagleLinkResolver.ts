@@ -0,0 +1,44 @@
+import { LinkResolver } from "../render/linkResolvers"
+import { getLocalResourceUrl } from "../helpers"
+import { EagleConnection } from "./eagleRequest"
+import { getEagleItemIdFromLink } from "./eagleItemLink"
+import { getEagleItemFilePath, getEagleItemInfo, getEagleItemThumbnailPath } from "./getEagleItemInfo"
+import { withEagleLibrary } from "./eagleLibrary"
+
+// Formats the app can show as they are. Anything else, like PSD or RAW files, is shown with the thumbnail Eagle made for it
+const SUPPORTED_EXTENSIONS = [
+  "jpg", "jpeg", "png", "gif", "webp", "avif", "svg", "bmp", "ico",
+  "mp4", "webm", "mov", "m4v", "ogv",
+  "mp3", "wav", "ogg", "oga", "flac", "m4a", "aac", "opus",
+]
+
+// Resolved items by library and ID, so a note that is shown again doesn't ask Eagle again
+const itemUrls = new Map<string, Promise<string>>()
+
+const resolveItem = async (itemId: string, eagle: EagleConnection): Promise<string> => {
+  const item = await getEagleItemInfo(itemId, eagle)
+  const path = SUPPORTED_EXTENSIONS.includes(item.ext.toLowerCase())
+    ? await getEagleItemFilePath(item, eagle)
+    : await getEagleItemThumbnailPath(item.id, eagle)
+  return getLocalResourceUrl(path)
+}
+
+// Turns embedded eagle://item/<id> links into the file in the note's Eagle library. Plain links still open the item in Eagle
+export const eagleLinkResolver: LinkResolver = {
+  embedsOnly: true,
+  matches: (link) => getEagleItemIdFromLink(link) !== null,
+  resolve: async (link, { settings }) => {
+    const itemId = getEagleItemIdFromLink(link)
+    if (!itemId) throw new Error(`${link} is not an Eagle item link.`)
+
+    const key = `${settings.eagleLibrary}|${itemId}`
+    let url = itemUrls.get(key)
+    if (!url) {
+      url = withEagleLibrary(settings.eagleLibrary, settings, () => resolveItem(itemId, settings))
+      // Failures aren't cached, Eagle may just not be running yet
+      url.catch(() => itemUrls.delete(key))
+      itemUrls.set(key, url)
+    }
+    return url
+  },
+}
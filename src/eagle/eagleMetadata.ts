@@ -0,0 +1,67 @@
+import { App, FrontMatterCache, TFile, parseFrontMatterTags } from "obsidian"
+import { S3agleSettings } from "../settings"
+import { NoteContext } from "../types"
+
+export type EagleMetadata = {
+  tags: string[]
+  annotation: string
+  website: string
+}
+
+// Frontmatter field with extra Eagle tags for the files added to a note
+const NOTE_TAGS_FIELD = "S3agleEagleTags"
+
+const TAGS_VARIABLE = "${tags}"
+
+// Link that opens the note in Obsidian
+export const getObsidianNoteLink = (app: App, notePath: string): string => {
+  return `obsidian://open?vault=${encodeURIComponent(app.vault.getName())}&file=${encodeURIComponent(notePath)}`
+}
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value === "string") return value.split(",")
+  return []
+}
+
+// Extra Eagle tags the note asks for in its frontmatter
+export const getFrontmatterEagleTags = (frontmatter: FrontMatterCache | undefined): string[] => {
+  return toList(frontmatter?.[NOTE_TAGS_FIELD]).map((tag) => tag.trim()).filter(Boolean)
+}
+
+// Tags, annotation and website for an Eagle item, filled in from the settings templates and the note the file was added to
+export const buildEagleMetadata = (
+  app: App,
+  settings: S3agleSettings,
+  fileName: string,
+  sourceUrl: string,
+  note?: NoteContext,
+): EagleMetadata => {
+  const noteFile = note && app.vault.getAbstractFileByPath(note.path)
+  const frontmatter = noteFile instanceof TFile ? app.metadataCache.getFileCache(noteFile)?.frontmatter : undefined
+  const noteTags = (parseFrontMatterTags(frontmatter || null) || []).map((tag) => tag.replace(/^#/, ""))
+
+  const variables: Record<string, string> = {
+    fileName,
+    url: sourceUrl,
+    noteTitle: noteFile instanceof TFile ? noteFile.basename : "",
+    notePath: note?.path || "",
+    noteLink: note ? getObsidianNoteLink(app, note.path) : "",
+    paragraph: note?.paragraph || "",
+    tags: noteTags.join(", "),
+  }
+  const render = (template: string): string =>
+    template.replace(/\$\{(\w+)\}/g, (match, name) => (name in variables ? variables[name] : match)).trim()
+
+  // ${tags} on its own expands to every tag of the note instead of a single joined tag
+  const templateTags = toList(settings.eagleTagsTemplate).flatMap((template) =>
+    template.trim() === TAGS_VARIABLE ? noteTags : [render(template)],
+  )
+  const tags = [...templateTags, ...getFrontmatterEagleTags(frontmatter)]
+
+  return {
+    tags: Array.from(new Set(tags.filter(Boolean))),
+    annotation: render(settings.eagleAnnotationTemplate),
+    website: render(settings.eagleWebsiteTemplate),
+  }
+}
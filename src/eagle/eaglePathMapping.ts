@@ -0,0 +1,42 @@
+import type { S3agleSettings } from "../settings"
+
+export type EaglePathMapping = {
+  localPath: string // Folder on this computer
+  remotePath: string // The same folder as the computer running Eagle sees it
+}
+
+const normalize = (path: string): string => path.replace(/\\/g, "/").replace(/\/+$/, "")
+
+const replacePrefix = (path: string, from: string, to: string): string | null => {
+  const normalizedPath = normalize(path)
+  const prefix = normalize(from)
+  if (!prefix || (normalizedPath !== prefix && !normalizedPath.startsWith(prefix + "/"))) return null
+  return normalize(to) + normalizedPath.slice(prefix.length)
+}
+
+// Whether Eagle runs on another computer, in which case it can't read paths on this one unless they are mapped
+export const isRemoteEagle = (settings: Pick<S3agleSettings, "eagleApiUrl">): boolean => {
+  try {
+    return !["localhost", "127.0.0.1", "[::1]"].includes(new URL(settings.eagleApiUrl).hostname)
+  } catch (error) {
+    return false
+  }
+}
+
+// Path on the Eagle computer for a path on this one. Null when Eagle is remote and no mapping covers it
+export const toEaglePath = (path: string, settings: Pick<S3agleSettings, "eagleApiUrl" | "eaglePathMappings">): string | null => {
+  for (const { localPath, remotePath } of settings.eaglePathMappings) {
+    const mapped = replacePrefix(path, localPath, remotePath)
+    if (mapped) return mapped
+  }
+  return isRemoteEagle(settings) ? null : path
+}
+
+// Path on this computer for a path Eagle gave, like the file of an item. Unmapped paths are returned as they are
+export const fromEaglePath = (path: string, settings: Pick<S3agleSettings, "eaglePathMappings">): string => {
+  for (const { localPath, remotePath } of settings.eaglePathMappings) {
+    const mapped = replacePrefix(path, remotePath, localPath)
+    if (mapped) return mapped
+  }
+  return path
+}
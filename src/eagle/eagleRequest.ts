@@ -0,0 +1,53 @@
+import { RequestUrlResponse, requestUrl } from "obsidian"
+import type { S3agleSettings } from "../settings"
+
+// What it takes to reach Eagle, the plugin settings have all of it
+export type EagleConnection = Pick<S3agleSettings, "eagleApiUrl" | "eagleApiToken" | "eaglePathMappings">
+
+type EagleRequestOptions = {
+  method?: "GET" | "POST"
+  query?: Record<string, string>
+  body?: unknown
+}
+
+// Call an Eagle API endpoint and return the data of a successful response
+export const eagleRequest = async <T>(
+  eagle: EagleConnection,
+  endpoint: string,
+  { method = "GET", query, body }: EagleRequestOptions = {},
+): Promise<T> => {
+  let safeEagleApiUrl = eagle.eagleApiUrl
+  if (safeEagleApiUrl.endsWith("/")) {
+    //remove trailing slash
+    safeEagleApiUrl = safeEagleApiUrl.slice(0, -1)
+  }
+  // Eagle builds that require a token take it as a query parameter on every request
+  const params = { ...query, ...(eagle.eagleApiToken ? { token: eagle.eagleApiToken } : {}) }
+  const queryString = Object.keys(params).length ? `?${new URLSearchParams(params).toString()}` : ""
+
+  let response: RequestUrlResponse
+  try {
+    response = await requestUrl({
+      url: safeEagleApiUrl + endpoint + queryString,
+      method,
+      contentType: body === undefined ? undefined : "application/json",
+      body: body === undefined ? undefined : JSON.stringify(body),
+      throw: false,
+    })
+  } catch (error) {
+    // Error statuses don't throw, so nothing answered at all
+    throw new Error(`Eagle is not running or can't be reached at ${safeEagleApiUrl}.`)
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error("Eagle refused the request, check the Eagle API token in the settings.")
+  }
+  if (response.status !== 200) {
+    throw new Error(`Eagle request to ${endpoint} failed with status ${response.status}.`)
+  }
+
+  const result = response.json
+  if (result.status !== "success") {
+    throw new Error(`Eagle request to ${endpoint} failed: ${result.message || result.status}`)
+  }
+  return result.data as T
+}
@@ -0,0 +1,25 @@
+import { EAGLE_API_APPLICATION_INFO_ENDPOINT } from "../constants"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
+
+const STATUS_MAX_AGE = 10 * 1000
+
+let status: { eagleApiUrl: string, available: boolean, checkedAt: number } | null = null
+let pendingCheck: Promise<boolean> | null = null
+
+// Whether Eagle answers at the API URL. The answer is reused for a few seconds, every upload and link asks
+export const isEagleAvailable = (eagle: EagleConnection): Promise<boolean> => {
+  const { eagleApiUrl } = eagle
+  if (status && status.eagleApiUrl === eagleApiUrl && Date.now() - status.checkedAt < STATUS_MAX_AGE) {
+    return Promise.resolve(status.available)
+  }
+  if (!pendingCheck) {
+    pendingCheck = eagleRequest(eagle, EAGLE_API_APPLICATION_INFO_ENDPOINT)
+      .then(() => true, () => false)
+      .then((available) => {
+        status = { eagleApiUrl, available, checkedAt: Date.now() }
+        return available
+      })
+      .finally(() => (pendingCheck = null))
+  }
+  return pendingCheck
+}
@@ -0,0 +1,162 @@
+import { Debouncer, TFile, debounce, getAllTags } from "obsidian"
+import type S3aglePlugin from "../main"
+import { EagleItem, EagleSyncRecord } from "../types"
+import { EAGLE_API_ITEM_UPDATE_ENDPOINT } from "../constants"
+import { eagleRequest } from "./eagleRequest"
+import { getEagleItemInfo } from "./getEagleItemInfo"
+import { findLinkedEagleItems } from "./linkedEagleItems"
+import { getFrontmatterEagleTags } from "./eagleMetadata"
+import { withEagleLibrary } from "./eagleLibrary"
+import { getNoteSettings } from "../noteSettings"
+
+const SYNC_DELAY = 5000 // Wait for the note to settle before pushing, Obsidian saves while typing
+
+// Callout written below a link, tagged with the item ID so the next sync replaces it
+const calloutPattern = (itemId: string): RegExp => new RegExp(`\\n> \\[!eagle\\|${itemId}\\][^\\n]*(?:\\n>[^\\n]*)*`)
+
+const buildCallout = (item: EagleItem): string => {
+  const lines = [`> [!eagle|${item.id}]- ${item.name}.${item.ext}`]
+  if (item.tags.length) lines.push(`> Tags: ${item.tags.join(", ")}`)
+  if (item.annotation) lines.push(">", ...item.annotation.split("\n").map((line) => `> ${line}`.trimEnd()))
+  return lines.join("\n")
+}
+
+// Alt text that describes the file, rather than the file name or a size like ![name|300]
+const getDescription = (alt: string, item: EagleItem): string => {
+  const description = alt.replace(/\|\d+(x\d+)?$/, "").trim()
+  return description === item.name || description === `${item.name}.${item.ext}` ? "" : description
+}
+
+const sameTags = (a: string[], b: string[]): boolean => a.length === b.length && a.every((tag) => b.includes(tag))
+
+/**
+ * Keeps Eagle items and the notes that link to them in step.
+ * Note tags and alt text are pushed to the items, item tags and annotations are written back into the note as callouts.
+ * What each note pushed is kept in plugin data, so only changes made in the note since the last sync are pushed.
+ * Items are looked up in the Eagle library the note's settings pick.
+ */
+export class EagleSync {
+  private plugin: S3aglePlugin
+  private scheduled = new Map<string, Debouncer<[TFile], void>>()
+
+  constructor(plugin: S3aglePlugin) {
+    this.plugin = plugin
+  }
+
+  // Pull and push for a note, returning how many items were updated on each side.
+  // Pulling first shows what changed in Eagle before the note changes anything
+  async sync(file: TFile): Promise<{ pushed: number, pulled: number }> {
+    const pulled = this.plugin.settings.eagleSyncCallouts ? await this.pull(file) : 0
+    const pushed = await this.push(file)
+    return { pushed, pulled }
+  }
+
+  // Push a note a few seconds after its last change
+  schedule(file: TFile): void {
+    let push = this.scheduled.get(file.path)
+    if (!push) {
+      push = debounce((file: TFile) => {
+        this.push(file).catch((error) => console.error("Error syncing note to Eagle:", file.path, error))
+      }, SYNC_DELAY, true)
+      this.scheduled.set(file.path, push)
+    }
+    push(file)
+  }
+
+  // Add the note tags to its items and use alt text as their annotation.
+  // Tags the note pushed before and no longer has are removed, unless another note pushed them too, tags added in Eagle stay.
+  // Alt text only replaces the annotation when it changed since the last sync, so an annotation edited in Eagle isn't overwritten
+  async push(file: TFile): Promise<number> {
+    const { app, eagleSyncRecords } = this.plugin
+    const settings = getNoteSettings(app, this.plugin.settings, file.path)
+    const cache = app.metadataCache.getFileCache(file)
+    const noteTags = Array.from(new Set([
+      ...((cache && getAllTags(cache)) || []).map((tag) => tag.replace(/^#/, "")),
+      ...getFrontmatterEagleTags(cache?.frontmatter),
+    ]))
+
+    let updated = 0
+    const pushedItems = new Set<string>()
+    const linkedItems = findLinkedEagleItems(await app.vault.cachedRead(file), this.plugin.attachmentIndex)
+    await withEagleLibrary(settings.eagleLibrary, settings, async () => {
+      for (const linked of linkedItems) {
+        // An item linked more than once is pushed with its first link
+        if (pushedItems.has(linked.itemId)) continue
+        pushedItems.add(linked.itemId)
+
+        const item = await getEagleItemInfo(linked.itemId, settings)
+        const records = eagleSyncRecords[item.id] || {}
+        const last: EagleSyncRecord | undefined = records[file.path]
+        const otherTags = Object.entries(records).flatMap(([notePath, record]) => (notePath === file.path ? [] : record.tags))
+        const removed = (last?.tags || []).filter((tag) => !noteTags.includes(tag) && !otherTags.includes(tag))
+        const tags = Array.from(new Set([...item.tags.filter((tag) => !removed.includes(tag)), ...noteTags]))
+        const description = getDescription(linked.alt, item)
+        const annotation = description && description !== last?.annotation ? description : item.annotation
+
+        if (!sameTags(tags, item.tags) || annotation !== item.annotation) {
+          await eagleRequest(settings, EAGLE_API_ITEM_UPDATE_ENDPOINT, {
+            method: "POST",
+            body: { id: item.id, tags, annotation },
+          })
+          updated++
+        }
+        eagleSyncRecords[item.id] = { ...records, [file.path]: { tags: noteTags, annotation: description } }
+      }
+    })
+    if (pushedItems.size) await this.plugin.saveSettings()
+    return updated
+  }
+
+  // Write the tags and annotation of each item into a callout below its first link
+  async pull(file: TFile): Promise<number> {
+    const { app } = this.plugin
+    const settings = getNoteSettings(app, this.plugin.settings, file.path)
+    const linked = findLinkedEagleItems(await app.vault.cachedRead(file), this.plugin.attachmentIndex)
+    const items: { item: EagleItem, link: string }[] = []
+    await withEagleLibrary(settings.eagleLibrary, settings, async () => {
+      for (const { itemId, link } of linked) {
+        items.push({ item: await getEagleItemInfo(itemId, settings), link })
+      }
+    })
+    if (!items.length) return 0
+
+    await app.vault.process(file, (content) => {
+      for (const { item, link } of items) {
+        content = content.replace(calloutPattern(item.id), "")
+        const position = content.indexOf(link)
+        if (position === -1) continue
+        const lineEnd = content.indexOf("\n", position)
+        const end = lineEnd === -1 ? content.length : lineEnd
+        content = content.slice(0, end) + "\n" + buildCallout(item) + content.slice(end)
+      }
+      return content
+    })
+    return items.length
+  }
+
+  // Keep what a note pushed when it is renamed
+  async renameNote(oldPath: string, newPath: string): Promise<void> {
+    const { eagleSyncRecords } = this.plugin
+    let changed = false
+    for (const records of Object.values(eagleSyncRecords)) {
+      if (!records[oldPath]) continue
+      records[newPath] = records[oldPath]
+      delete records[oldPath]
+      changed = true
+    }
+    if (changed) await this.plugin.saveSettings()
+  }
+
+  // A deleted note no longer keeps its tags on the items
+  async forgetNote(notePath: string): Promise<void> {
+    const { eagleSyncRecords } = this.plugin
+    let changed = false
+    for (const [itemId, records] of Object.entries(eagleSyncRecords)) {
+      if (!records[notePath]) continue
+      delete records[notePath]
+      if (!Object.keys(records).length) delete eagleSyncRecords[itemId]
+      changed = true
+    }
+    if (changed) await this.plugin.saveSettings()
+  }
+}
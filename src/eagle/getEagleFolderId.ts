@@ -1,48 +1,27 @@
 import { Folder } from "../types"
 import { createEagleFolder } from "./createEagleFolder"
-import { EAGLE_API_FOLDER_LIST_ENDPOINT } from "../constants"
+import { EagleConnection } from "./eagleRequest"
+import { getEagleFolderTree, invalidateEagleFolders } from "./listEagleFolders"
 
 export const getEagleFolderId = async (
   folderPath: string,
   createPathIfNotExist = true,
-  eagleApiUrl: string,
+  eagle: EagleConnection,
 ): Promise<string | null> => {
   try {
-    const requestOptions: RequestInit = {
-      method: "GET",
-      redirect: "follow",
-    }
-
-    let safeEagleApiUrl = eagleApiUrl
-    if (safeEagleApiUrl.endsWith("/")) {
-      //remove trailing slash
-      safeEagleApiUrl = safeEagleApiUrl.slice(0, -1)
-    }
-
-    const response = await fetch(
-      safeEagleApiUrl + EAGLE_API_FOLDER_LIST_ENDPOINT,
-      requestOptions,
+    const { libraryPath, folders } = await getEagleFolderTree(eagle)
+    const pathParts = folderPath.split("/").filter(Boolean)
+    const parentId = ""
+    const folder = await findFolderInTree(
+      createPathIfNotExist,
+      folders,
+      pathParts,
+      parentId,
+      libraryPath,
+      eagle,
     )
 
-    const result = await response.json()
-
-    if (result.status === "success") {
-      const folders: Folder[] = result.data
-      const pathParts = folderPath.split("/")
-      const parentId = ""
-      const folder = await findFolderInTree(
-        createPathIfNotExist,
-        folders,
-        pathParts,
-        parentId,
-        safeEagleApiUrl,
-      )
-
-      return folder ? folder.id : null
-    } else {
-      console.error("Failed to fetch folder list:", result)
-      return null
-    }
+    return folder ? folder.id : null
   } catch (error) {
     console.error("Failed to fetch folder list:", error)
     return null
@@ -55,7 +34,8 @@ const findFolderInTree = async (
   folders: Folder[],
   pathParts: string[],
   parentId = "",
-  eagleApiUrl: string,
+  libraryPath: string,
+  eagle: EagleConnection,
 ): Promise<Folder | undefined> => {
   if (pathParts.length === 0) {
     return
@@ -73,32 +53,34 @@ const findFolderInTree = async (
       folder.children,
       pathParts.slice(1),
       folder.id,
-      eagleApiUrl,
+      libraryPath,
+      eagle,
     )
   }
   if (!folder && createPathIfNotExist) {
     // Folder is not found and we need to create it
-    const folderId = await createEagleFolder(folderName, parentId, eagleApiUrl)
+    const folderId = await createEagleFolder(folderName, parentId, libraryPath, eagle)
 
     if (folderId) {
-      //Folder was created successfully we can create the next folder in the list if needed
-      if (endOfTree) {
-        return {
-          id: folderId,
-          name: folderName,
-          parent: parentId,
-          children: [],
-        }
-      } else {
-        // Go deeper in the tree
-        return findFolderInTree(
-          createPathIfNotExist,
-          folders,
-          pathParts.slice(1),
-          folderId,
-          eagleApiUrl,
-        )
+      // Another import may have added the folder to the cached tree while this one was created
+      let created = folders.find((folder) => folder.name === folderName)
+      if (!created) {
+        created = { id: folderId, name: folderName, parent: parentId, children: [] }
+        folders.push(created)
       }
-    } else return
+      //Folder was created successfully we can create the next folder in the list if needed
+      if (endOfTree) return created
+      return findFolderInTree(
+        createPathIfNotExist,
+        created.children,
+        pathParts.slice(1),
+        created.id,
+        libraryPath,
+        eagle,
+      )
+    }
+    // The parent may be gone from Eagle, so look at a fresh tree next time
+    invalidateEagleFolders()
+    return
   }
 }
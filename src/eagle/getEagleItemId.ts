@@ -1,39 +1,60 @@
-import { EAGLE_API_FOLDER_LIST_ENDPOINT } from "../constants"
+import { EAGLE_API_ITEM_LIST_ENDPOINT } from "../constants"
+import { EagleItem } from "../types"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
+import { getEagleItemInfo } from "./getEagleItemInfo"
 
-export const getEagleItemId = async (
-  fileName: string,
-  folderId: string,
-  eagleApiUrl: string,
-): Promise<string | null> => {
-  try {
-    const requestOptions: RequestInit = {
-      method: "GET",
-      redirect: "follow",
-    }
+const POLL_INTERVAL = 500
+const POLL_TIMEOUT = 30 * 1000
 
-    let safeEagleApiUrl = eagleApiUrl
-    if (safeEagleApiUrl.endsWith("/")) {
-      //remove trailing slash
-      safeEagleApiUrl = safeEagleApiUrl.slice(0, -1)
-    }
-    const response = await fetch(
-      safeEagleApiUrl + EAGLE_API_FOLDER_LIST_ENDPOINT + `?keyword=${fileName}&folders=${folderId}`,
-      requestOptions,
-    )
+// An import Eagle accepted, enough to find the item again without sending the file twice
+export type EagleSubmission = {
+  fileName: string
+  folderId: string
+  submittedAt: number // Epoch ms, items added before this are older files with the same name
+  itemId?: string // From the add response, when Eagle returned one
+}
 
-    const results = await response.json()
+// Items already matched to an import, so two imports of files with the same name never get the same item
+const claimedItemIds = new Set<string>()
 
-    if (results.status === "success") {
-      //find the item id by file name in the results
-      const item = results.data.find((item: { name: string }) => item.name === fileName)
-      const result = item ? item.id : null
-      return result
-    } else {
-      console.error("Failed to fetch item list:", results)
-      return null
-    }
+// Newest unclaimed item in the folder with the given name that was added since the import was sent.
+// Eagle may or may not keep the extension in the name
+const findNewestItem = async ({ fileName, folderId, submittedAt }: EagleSubmission, eagle: EagleConnection): Promise<string | null> => {
+  const items = await eagleRequest<EagleItem[]>(eagle, EAGLE_API_ITEM_LIST_ENDPOINT, {
+    query: { keyword: fileName.replace(/\.[^.]*$/, ""), folders: folderId, orderBy: "-CREATEDATE", limit: "50" },
+  })
+  const item = items.find((candidate) =>
+    (candidate.name === fileName || `${candidate.name}.${candidate.ext}` === fileName) &&
+    (candidate.btime || candidate.modificationTime || 0) >= submittedAt &&
+    !claimedItemIds.has(candidate.id),
+  )
+  return item ? item.id : null
+}
+
+const isImported = async (itemId: string, eagle: EagleConnection): Promise<boolean> => {
+  try {
+    await getEagleItemInfo(itemId, eagle)
+    return true
   } catch (error) {
-    console.error("Failed to fetch item list:", error)
-    return null
+    return false
+  }
+}
+
+// Eagle imports in the background after addFromURL/addFromPath return, so wait until the item shows up.
+// The item is the one from the add response when Eagle returned an ID, otherwise it is looked up by name
+export const getEagleItemId = async (submission: EagleSubmission, eagle: EagleConnection): Promise<string> => {
+  const { fileName, itemId } = submission
+  const deadline = Date.now() + POLL_TIMEOUT
+  for (;;) {
+    if (itemId && await isImported(itemId, eagle)) return itemId
+    if (!itemId) {
+      const foundId = await findNewestItem(submission, eagle).catch(() => null)
+      if (foundId) {
+        claimedItemIds.add(foundId)
+        return foundId
+      }
+    }
+    if (Date.now() > deadline) throw new Error(`Eagle did not finish importing ${fileName}.`)
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL))
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,21 @@
+import { EagleItem } from "../types"
+import { EAGLE_API_ITEM_INFO_ENDPOINT, EAGLE_API_ITEM_THUMBNAIL_ENDPOINT } from "../constants"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
+import { fromEaglePath } from "./eaglePathMapping"
+
+export const getEagleItemInfo = (itemId: string, eagle: EagleConnection): Promise<EagleItem> => {
+  return eagleRequest<EagleItem>(eagle, EAGLE_API_ITEM_INFO_ENDPOINT, { query: { id: itemId } })
+}
+
+export const getEagleItemThumbnailPath = async (itemId: string, eagle: EagleConnection): Promise<string> => {
+  const thumbnailPath = await eagleRequest<string>(eagle, EAGLE_API_ITEM_THUMBNAIL_ENDPOINT, { query: { id: itemId } })
+  // As this computer sees it, when Eagle runs on another one
+  return fromEaglePath(decodeURIComponent(thumbnailPath), eagle)
+}
+
+// Path of the original file of an item. Eagle keeps it next to the thumbnail, in the item's folder of the library
+export const getEagleItemFilePath = async (item: EagleItem, eagle: EagleConnection): Promise<string> => {
+  const thumbnailPath = await getEagleItemThumbnailPath(item.id, eagle)
+  const itemFolder = thumbnailPath.replace(/[\\/][^\\/]*$/, "")
+  return `${itemFolder}/${item.name}.${item.ext}`
+}
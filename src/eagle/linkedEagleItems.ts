@@ -0,0 +1,27 @@
+import { AttachmentIndex } from "../attachments/attachmentIndex"
+import { getEagleItemIdFromLink } from "./eagleItemLink"
+
+export type LinkedEagleItem = {
+  itemId: string
+  link: string
+  alt: string
+}
+
+// Markdown links and embeds, and HTML embeds
+const LINK_PATTERN = /!?\[([^\]\n]*)\]\(([^)\s]+)[^)\n]*\)|<(?:img|video|audio)\b[^>]*\bsrc="([^"]+)"/g
+
+// Eagle items a note links to, directly or through a copy of the file the attachment index knows the item of
+export const findLinkedEagleItems = (content: string, index: AttachmentIndex): LinkedEagleItem[] => {
+  const items = new Map<string, LinkedEagleItem>()
+  for (const match of content.matchAll(LINK_PATTERN)) {
+    const link = match[2] || match[3]
+    const itemId = getEagleItemIdFromLink(link) || index.findByLocation(link)?.eagleItemId
+    if (!itemId) continue
+
+    const alt = match[1]?.trim() || ""
+    const existing = items.get(itemId)
+    if (!existing) items.set(itemId, { itemId, link, alt })
+    else if (!existing.alt) existing.alt = alt
+  }
+  return Array.from(items.values())
+}
@@ -0,0 +1,51 @@
+import { EAGLE_API_FOLDER_LIST_ENDPOINT } from "../constants"
+import { Folder } from "../types"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
+import { getActiveEagleLibrary } from "./eagleLibrary"
+
+const FOLDER_TREE_MAX_AGE = 60 * 1000
+
+export type EagleFolderTree = {
+  libraryPath: string // Library the folders belong to
+  folders: Folder[]
+}
+
+// Every import looks up its folder, so the tree of each library is fetched once and shared until it gets old.
+// Keyed by the library Eagle has open, so a library switched in Eagle itself never gets the folders of another
+const folderTrees = new Map<string, { folders: Promise<Folder[]>, fetchedAt: number }>()
+
+// Folder tree of the open library. Folders the plugin creates are added to the cached tree
+export const getEagleFolderTree = async (eagle: EagleConnection): Promise<EagleFolderTree> => {
+  const { path: libraryPath } = await getActiveEagleLibrary(eagle)
+  const key = `${eagle.eagleApiUrl}|${libraryPath}`
+  const cached = folderTrees.get(key)
+  if (cached && Date.now() - cached.fetchedAt < FOLDER_TREE_MAX_AGE) {
+    return { libraryPath, folders: await cached.folders }
+  }
+
+  const folders = eagleRequest<Folder[]>(eagle, EAGLE_API_FOLDER_LIST_ENDPOINT)
+  const tree = { folders, fetchedAt: Date.now() }
+  folderTrees.set(key, tree)
+  // A failed fetch isn't kept, the next import asks again
+  folders.catch(() => {
+    if (folderTrees.get(key) === tree) folderTrees.delete(key)
+  })
+  return { libraryPath, folders: await folders }
+}
+
+export const listEagleFolders = async (eagle: EagleConnection): Promise<Folder[]> => {
+  return (await getEagleFolderTree(eagle)).folders
+}
+
+// Forget the cached trees, for example when Eagle rejected a folder that was deleted in the meantime
+export const invalidateEagleFolders = (): void => {
+  folderTrees.clear()
+}
+
+// Every folder of the tree with its full path, parents before their children
+export const flattenEagleFolders = (folders: Folder[], parentPath = ""): { id: string, path: string }[] => {
+  return folders.flatMap((folder) => {
+    const path = parentPath ? `${parentPath}/${folder.name}` : folder.name
+    return [{ id: folder.id, path }, ...flattenEagleFolders(folder.children || [], path)]
+  })
+}
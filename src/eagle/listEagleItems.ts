@@ -0,0 +1,21 @@
+import { EAGLE_API_ITEM_LIST_ENDPOINT } from "../constants"
+import { EagleItem } from "../types"
+import { EagleConnection, eagleRequest } from "./eagleRequest"
+
+export type EagleItemFilters = {
+  keyword?: string
+  tags?: string[]
+  folderId?: string
+  ext?: string
+  limit?: number
+}
+
+// Items of the current Eagle library matching the filters, newest first
+export const listEagleItems = (eagle: EagleConnection, { keyword, tags, folderId, ext, limit = 50 }: EagleItemFilters): Promise<EagleItem[]> => {
+  const query: Record<string, string> = { limit: String(limit), orderBy: "-CREATEDATE" }
+  if (keyword) query.keyword = keyword
+  if (tags?.length) query.tags = tags.join(",")
+  if (folderId) query.folders = folderId
+  if (ext) query.ext = ext.replace(/^\./, "")
+  return eagleRequest<EagleItem[]>(eagle, EAGLE_API_ITEM_LIST_ENDPOINT, { query })
+}
@@ -1,72 +1,156 @@
 import { S3agleSettings } from "../settings"
-import { ObsHttpHandler } from "../helpers"
-import { HttpRequest } from "@aws-sdk/protocol-http"
-import { URL } from 'url'
-import { EAGLE_API_ADD_FROM_URL_ENDPOINT, EAGLE_API_ADD_FROM_PATH_ENDPOINT } from "../constants"
+import { isWebUrl } from "../helpers"
+import {
+  EAGLE_API_ADD_FROM_URL_ENDPOINT,
+  EAGLE_API_ADD_FROM_PATH_ENDPOINT,
+  EAGLE_API_ADD_FROM_URLS_ENDPOINT,
+  EAGLE_API_ADD_FROM_PATHS_ENDPOINT,
+} from "../constants"
 import { getEagleFolderId } from "./getEagleFolderId"
+import { invalidateEagleFolders } from "./listEagleFolders"
+import { EagleSubmission, getEagleItemId } from "./getEagleItemId"
+import { getEagleItemLink } from "./eagleItemLink"
+import { eagleRequest } from "./eagleRequest"
+import { EagleMetadata } from "./eagleMetadata"
+import { isEagleAvailable } from "./eagleStatus"
 
-// Upload file to Eagle using a URL
-export const uploadToEagle = async (fileUrl: string, fileName: string, settings: S3agleSettings): Promise<string> => {
-  const eagleApiUrl = settings.eagleApiUrl.endsWith("/")
-    ? settings.eagleApiUrl.slice(0, -1)
-    : settings.eagleApiUrl
-
-  const isWebUrl = fileUrl.trim().startsWith("http://") || fileUrl.trim().startsWith("https://")
-  const eagleApiEndpoint = isWebUrl ? EAGLE_API_ADD_FROM_URL_ENDPOINT : EAGLE_API_ADD_FROM_PATH_ENDPOINT
+export type EagleImport = {
+  fileUrl: string // Web URL or path on disk
+  fileName: string
+  metadata: EagleMetadata
+  folderPath: string
+}
 
-  const folderId = await getEagleFolderId(settings.eagleFolder, true, settings.eagleApiUrl) || ""
+// Item fields of an add request, the source goes in url or path depending on what it is
+const toEagleItem = ({ fileUrl, fileName, metadata }: EagleImport) => ({
+  [isWebUrl(fileUrl) ? "url" : "path"]: fileUrl,
+  name: fileName,
+  tags: metadata.tags,
+  website: metadata.website,
+  annotation: metadata.annotation,
+})
 
-  const data = isWebUrl ? {
-    url: fileUrl,
-    name: fileName,
-    tags: ["Obsidian"],
-    folderId,
-    website: fileUrl,
-    annotation: "Uploaded from Obsidian."
-  } : {
-    path: fileUrl,
-    name: fileName,
-    tags: ["Obsidian"],
-    folderId,
-    annotation: "Uploaded from Obsidian.",
-    website: fileUrl,
+// Fail with a clear message up front, instead of on a folder that couldn't be found
+const assertEagleAvailable = async (settings: S3agleSettings): Promise<void> => {
+  if (!(await isEagleAvailable(settings))) {
+    throw new Error(`Eagle is not running or can't be reached at ${settings.eagleApiUrl}.`)
   }
+}
 
-  const obsHttpHandler = new ObsHttpHandler()
+// Send an add request into the folder at folderPath, returning the folder ID it went to and Eagle's answer.
+// When Eagle rejects it the cached folder may have been deleted since, so it is sent again once if a fresh tree has another ID
+const postToEagleFolder = async <T>(
+  settings: S3agleSettings,
+  endpoint: string,
+  folderPath: string,
+  body: Record<string, unknown>,
+): Promise<{ folderId: string, response: T }> => {
+  const getFolderId = async () => (folderPath ? await getEagleFolderId(folderPath, true, settings) || "" : "")
+  const post = async (folderId: string) => ({
+    folderId,
+    response: await eagleRequest<T>(settings, endpoint, { method: "POST", body: { ...body, folderId } }),
+  })
 
-  // Parse eagleApiUrl to extract hostname and port
-  const url = new URL(eagleApiUrl)
-  const protocol = url.protocol
-  const hostname = url.hostname
-  const port = url.port || (protocol === "https:" ? "443" : "80")
+  const folderId = await getFolderId()
+  try {
+    return await post(folderId)
+  } catch (error) {
+    if (!folderId) throw error
+    invalidateEagleFolders()
+    const freshFolderId = await getFolderId()
+    if (freshFolderId === folderId) throw error
+    return post(freshFolderId)
+  }
+}
 
-  const httpRequest = new HttpRequest({
-    protocol,
-    hostname,
-    port: parseInt(port, 10),
-    method: "POST",
-    path: eagleApiEndpoint,
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(data),
-  })
+// Upload file to Eagle from a web URL or a path on disk into folderPath, and return the eagle://item/<id> link of the new item.
+// onSubmitted gets the accepted import before waiting for it, so a retry after a timeout can wait again instead of importing twice
+export const uploadToEagle = async (
+  fileUrl: string,
+  fileName: string,
+  settings: S3agleSettings,
+  metadata: EagleMetadata,
+  folderPath: string,
+  onSubmitted?: (submission: EagleSubmission) => void,
+): Promise<string> => {
+  await assertEagleAvailable(settings)
+  const eagleApiEndpoint = isWebUrl(fileUrl) ? EAGLE_API_ADD_FROM_URL_ENDPOINT : EAGLE_API_ADD_FROM_PATH_ENDPOINT
+  const data = toEagleItem({ fileUrl, fileName, metadata, folderPath })
 
-  const response = await obsHttpHandler.handle(httpRequest)
-  if (response.response.statusCode !== 200) {
-    // Output the response body
-    const responseBody = await response.response.body.getReader().read().then(({ value }: { value: Uint8Array }) => new TextDecoder().decode(value))
-    console.error(`Failed to upload file to Eagle: ${responseBody}`)
+  const submittedAt = Date.now()
+  let posted: { folderId: string, response: unknown }
+  try {
+    posted = await postToEagleFolder<unknown>(settings, eagleApiEndpoint, folderPath, data)
+  } catch (error) {
+    console.error("Failed to upload file to Eagle:", error)
     throw new Error("Failed to upload file to Eagle.")
   }
-  // Parse the response body to get the Eagle item ID
-  // const responseData = await response.response.body.getReader().read().then(({ value }: { value: Uint8Array }) => JSON.parse(new TextDecoder().decode(value)))
-  // Get the item ID
-  // const id = (!responseData.data || responseData.data === "undefined") ? await getEagleItemId(fileName, folderId, eagleApiUrl) : responseData.data
-  // if (!id) throw new Error("Failed to get Eagle item ID.")
 
-  // Right now we can't display previews with Eagle, local or S3 needs to be enabled to get previews, so just pass that back
+  // Newer versions of Eagle answer with the item ID, older ones with nothing, so fall back to finding the item
+  const submission: EagleSubmission = { fileName, folderId: posted.folderId, submittedAt }
+  if (typeof posted.response === "string" && posted.response) submission.itemId = posted.response
+  onSubmitted?.(submission)
+  return waitForEagleImport(submission, settings)
+}
 
-  return fileUrl
+// Wait for an accepted import to finish and return the link of its item.
+// Waiting also keeps temporary files around until Eagle has copied them
+export const waitForEagleImport = async (submission: EagleSubmission, settings: S3agleSettings): Promise<string> => {
+  return getEagleItemLink(await getEagleItemId(submission, settings))
 }
 
+// One file of a batch: a new import, or one Eagle accepted on an earlier attempt that is only waited for
+export type EagleBatchItem =
+  | { eagleImport: EagleImport, onSubmitted?: (submission: EagleSubmission) => void }
+  | { submission: EagleSubmission }
+
+// Upload several files with one request per folder and kind of source, returning the link of each, or the error that stopped it, in the same order
+export const uploadManyToEagle = async (items: EagleBatchItem[], settings: S3agleSettings): Promise<(string | Error)[]> => {
+  await assertEagleAvailable(settings)
+  const submissions: (EagleSubmission | Error)[] = []
+  type NewImport = { position: number, eagleImport: EagleImport, onSubmitted?: (submission: EagleSubmission) => void }
+  const groups = new Map<string, NewImport[]>()
+  items.forEach((item, position) => {
+    if ("submission" in item) {
+      submissions[position] = item.submission
+      return
+    }
+    const groupKey = `${isWebUrl(item.eagleImport.fileUrl) ? "url" : "path"}:${item.eagleImport.folderPath}`
+    groups.set(groupKey, [...(groups.get(groupKey) || []), { position, ...item }])
+  })
+
+  for (const group of groups.values()) {
+    try {
+      const { fileUrl, folderPath } = group[0].eagleImport
+      const eagleApiEndpoint = isWebUrl(fileUrl) ? EAGLE_API_ADD_FROM_URLS_ENDPOINT : EAGLE_API_ADD_FROM_PATHS_ENDPOINT
+      const submittedAt = Date.now()
+      const { folderId } = await postToEagleFolder(settings, eagleApiEndpoint, folderPath, {
+        items: group.map(({ eagleImport }) => toEagleItem(eagleImport)),
+      })
+      for (const { position, eagleImport, onSubmitted } of group) {
+        const submission: EagleSubmission = { fileName: eagleImport.fileName, folderId, submittedAt }
+        submissions[position] = submission
+        onSubmitted?.(submission)
+      }
+    } catch (error) {
+      console.error("Failed to upload files to Eagle:", error)
+      group.forEach(({ position }) => (submissions[position] = error))
+    }
+  }
+
+  // The batch endpoints don't answer with IDs, so every item is looked up once Eagle has imported it.
+  // One after the other, so files with the same name are matched to different items
+  const links: (string | Error)[] = []
+  for (const [position, submission] of submissions.entries()) {
+    if (submission instanceof Error) {
+      links[position] = submission
+      continue
+    }
+    try {
+      links[position] = await waitForEagleImport(submission, settings)
+    } catch (error) {
+      links[position] = error
+    }
+  }
+  return links
+}
@@ -0,0 +1,111 @@
+// Client side encryption of S3 objects. The passphrase never leaves this device, everything needed
+// to decrypt an object apart from it is stored in the object metadata.
+
+const ALGORITHM = "AES-256-GCM"
+const ITERATIONS = 310000 // PBKDF2-SHA256 iterations, stored with each object so it can be raised later
+const CHECK_TEXT = "s3agle"
+
+export const ENCRYPTED_CONTENT_TYPE = "application/octet-stream"
+
+// Object metadata keys, S3 lowercases them and adds the x-amz-meta- prefix
+const META_ALGORITHM = "s3agle-encryption"
+const META_IV = "s3agle-iv"
+const META_SALT = "s3agle-salt"
+const META_ITERATIONS = "s3agle-iterations"
+const META_CONTENT_TYPE = "s3agle-content-type"
+
+// Derived keys by salt and iterations, for the passphrase they were derived from
+const keys = new Map<string, Promise<CryptoKey>>()
+let keysPassphrase = ""
+
+export const createSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(16)))
+
+const deriveKey = (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  if (passphrase !== keysPassphrase) {
+    keys.clear()
+    keysPassphrase = passphrase
+  }
+  const cacheKey = `${salt}:${iterations}`
+  let key = keys.get(cacheKey)
+  if (!key) {
+    key = crypto.subtle
+      .importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"])
+      .then((material) => crypto.subtle.deriveKey(
+        { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+      ))
+    keys.set(cacheKey, key)
+  }
+  return key
+}
+
+// Encrypt a file, returning the encrypted bytes and the object metadata needed to decrypt them
+export const encryptFile = async (
+  file: Blob,
+  passphrase: string,
+  salt: string,
+): Promise<{ data: Uint8Array, metadata: Record<string, string> }> => {
+  if (!salt) throw new Error("Encryption is not set up, set a passphrase in the S3 settings.")
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(passphrase, salt, ITERATIONS)
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, await file.arrayBuffer())
+  return {
+    data: new Uint8Array(data),
+    metadata: {
+      [META_ALGORITHM]: ALGORITHM,
+      [META_IV]: toBase64(iv),
+      [META_SALT]: salt,
+      [META_ITERATIONS]: String(ITERATIONS),
+      [META_CONTENT_TYPE]: file.type,
+    },
+  }
+}
+
+export const isEncrypted = (metadata: Record<string, string> | undefined): boolean => {
+  return metadata?.[META_ALGORITHM] === ALGORITHM
+}
+
+// Content type of the file before it was encrypted
+export const getDecryptedContentType = (metadata: Record<string, string>): string => {
+  return metadata[META_CONTENT_TYPE] || ""
+}
+
+export const decryptFile = async (
+  data: Uint8Array,
+  metadata: Record<string, string>,
+  passphrase: string,
+): Promise<Uint8Array> => {
+  if (!isEncrypted(metadata)) throw new Error(`Unsupported encryption ${metadata[META_ALGORITHM]}.`)
+  const key = await deriveKey(passphrase, metadata[META_SALT], parseInt(metadata[META_ITERATIONS], 10))
+  try {
+    const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(metadata[META_IV]) }, key, data)
+    return new Uint8Array(decrypted)
+  } catch (error) {
+    // AES-GCM doesn't say why it failed, but it is almost always the passphrase
+    throw new Error("Failed to decrypt, the passphrase is wrong or the file is damaged.")
+  }
+}
+
+// Encrypted known text, stored in the settings to tell a mistyped passphrase from the right one
+export const createPassphraseCheck = async (passphrase: string, salt: string): Promise<string> => {
+  const { data, metadata } = await encryptFile(new Blob([CHECK_TEXT]), passphrase, salt)
+  return `${metadata[META_IV]}:${toBase64(data)}`
+}
+
+export const verifyPassphrase = async (passphrase: string, salt: string, check: string): Promise<boolean> => {
+  const [iv, data] = check.split(":")
+  try {
+    const key = await deriveKey(passphrase, salt, ITERATIONS)
+    const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(iv) }, key, fromBase64(data))
+    return new TextDecoder().decode(decrypted) === CHECK_TEXT
+  } catch (error) {
+    return false
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...Array.from(bytes)))
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
@@ -0,0 +1,87 @@
+import { App, Modal, Setting } from "obsidian"
+import { S3agleSettings } from "../settings"
+import { verifyPassphrase } from "./encryption"
+
+// The passphrase is kept in memory for the session, and in local storage when remembered on this device.
+// It is never written to the plugin data, which is often synced along with the vault.
+let sessionPassphrase = ""
+let pendingPrompt: Promise<string> | null = null
+
+const storageKey = (app: App): string => `s3agle-passphrase-${app.vault.getName()}`
+
+export const rememberPassphrase = (app: App, passphrase: string, onThisDevice: boolean): void => {
+  sessionPassphrase = passphrase
+  if (onThisDevice) window.localStorage.setItem(storageKey(app), passphrase)
+  else window.localStorage.removeItem(storageKey(app))
+}
+
+export const forgetPassphrase = (app: App): void => {
+  sessionPassphrase = ""
+  window.localStorage.removeItem(storageKey(app))
+}
+
+// The passphrase for this vault, asking for it once if it isn't known yet
+export const getPassphrase = async (app: App, settings: S3agleSettings): Promise<string> => {
+  if (!settings.encryptionCheck) throw new Error("Set an encryption passphrase in the S3 settings first.")
+  sessionPassphrase = sessionPassphrase || window.localStorage.getItem(storageKey(app)) || ""
+  if (sessionPassphrase) return sessionPassphrase
+
+  // Every encrypted link in a note asks at the same time, only show one prompt
+  if (!pendingPrompt) {
+    pendingPrompt = new Promise<string>((resolve, reject) => new PassphraseModal(app, settings, resolve, reject).open())
+      .finally(() => (pendingPrompt = null))
+  }
+  return pendingPrompt
+}
+
+class PassphraseModal extends Modal {
+  private settings: S3agleSettings
+  private onSubmit: (passphrase: string) => void
+  private onCancel: (error: Error) => void
+  private submitted = false
+
+  constructor(app: App, settings: S3agleSettings, onSubmit: (passphrase: string) => void, onCancel: (error: Error) => void) {
+    super(app)
+    this.settings = settings
+    this.onSubmit = onSubmit
+    this.onCancel = onCancel
+  }
+
+  onOpen() {
+    const { contentEl } = this
+    this.titleEl.setText("S3agle encryption passphrase")
+    contentEl.createEl("p", { text: "Encrypted files in S3 need the passphrase to be uploaded, shown or downloaded." })
+
+    let passphrase = ""
+    let remember = false
+    const errorEl = contentEl.createEl("p", { cls: "mod-warning" })
+
+    const submit = async () => {
+      if (!(await verifyPassphrase(passphrase, this.settings.encryptionSalt, this.settings.encryptionCheck))) {
+        errorEl.setText("Wrong passphrase.")
+        return
+      }
+      rememberPassphrase(this.app, passphrase, remember)
+      this.submitted = true
+      this.onSubmit(passphrase)
+      this.close()
+    }
+
+    new Setting(contentEl).setName("Passphrase").addText((text) => {
+      text.inputEl.type = "password"
+      text.onChange((value) => (passphrase = value))
+      text.inputEl.addEventListener("keydown", (event) => {
+        if (event.key === "Enter") submit()
+      })
+    })
+    new Setting(contentEl)
+      .setName("Remember on this device")
+      .addToggle((toggle) => toggle.onChange((value) => (remember = value)))
+    new Setting(contentEl).addButton((button) => button.setButtonText("Unlock").setCta().onClick(submit))
+  }
+
+  onClose() {
+    this.contentEl.empty()
+    if (!this.submitted) this.onCancel(new Error("No encryption passphrase was entered."))
+  }
+}
@@ -0,0 +1,49 @@
+import { parseYaml } from "obsidian"
+
+export type FolderRule = {
+  folders: string // Comma separated vault path globs, a folder without wildcards matches everything inside it
+  properties: string // Settings for the matching notes, one frontmatter property per line like "S3agleLocalOnly: true"
+}
+
+export const DEFAULT_FOLDER_RULE: FolderRule = {
+  folders: "",
+  properties: "",
+}
+
+// ** matches across folders, * and ? stay inside one folder
+const globToRegExp = (glob: string): RegExp => {
+  const pattern = glob
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**" || part === "**/") return ".*"
+      if (part === "*") return "[^/]*"
+      if (part === "?") return "[^/]"
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    })
+    .join("")
+  return new RegExp(`^${pattern}$`)
+}
+
+export const getFolderRuleGlobs = (rule: FolderRule): string[] => {
+  return rule.folders
+    .split(",")
+    .map((glob) => glob.trim().replace(/^\/+/, ""))
+    .filter(Boolean)
+    .map((glob) => (/[*?]/.test(glob) ? glob : `${glob.replace(/\/+$/, "")}/**`))
+}
+
+// The first rule with a glob that matches the note, with its position in the list
+export const findFolderRule = (notePath: string, rules: FolderRule[]): { rule: FolderRule, index: number } | undefined => {
+  const index = rules.findIndex((rule) => getFolderRuleGlobs(rule).some((glob) => globToRegExp(glob).test(notePath)))
+  return index === -1 ? undefined : { rule: rules[index], index }
+}
+
+// The properties of a rule as frontmatter would give them
+export const parseFolderRuleProperties = (rule: FolderRule): Record<string, unknown> => {
+  if (!rule.properties.trim()) return {}
+  const properties = parseYaml(rule.properties)
+  if (!properties || typeof properties !== "object" || Array.isArray(properties)) {
+    throw new Error("Write one property per line, like S3agleLocalOnly: true")
+  }
+  return properties
+}
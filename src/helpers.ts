@@ -5,8 +5,10 @@ import {
   FetchHttpHandlerOptions,
 } from "@aws-sdk/fetch-http-handler"
 import { HttpRequest, HttpResponse } from "@aws-sdk/protocol-http"
-import { App, FileSystemAdapter, RequestUrlParam, TFile, requestUrl } from "obsidian"
+import { App, FileSystemAdapter, MarkdownView, Platform, RequestUrlParam, TFile, normalizePath, requestUrl } from "obsidian"
 import { FileReference } from "./types"
+import type { S3agleSettings } from "./settings"
+import { parseS3Reference } from "./s3/s3ObjectUrl"
 import { createHash } from "crypto"
 
 export function hashFile(file: File, seed: number): Promise<string> {
@@ -36,6 +38,20 @@ export function hashArrayBuffer(buffer: ArrayBuffer, seed: number): string {
   return hash.digest('hex')
 }
 
+// Unseeded SHA-256 of file content, unlike the file name hash the same content always gives the same hash
+export const hashContent = (data: ArrayBuffer): string => {
+  return createHash("sha256").update(Buffer.from(data)).digest("hex")
+}
+
+// Same as hashContent, reading the file a slice at a time so large files aren't loaded into memory at once
+export const hashBlob = async (blob: Blob, sliceSize = 8 * 1024 * 1024): Promise<string> => {
+  const hash = createHash("sha256")
+  for (let start = 0; start < blob.size; start += sliceSize) {
+    hash.update(Buffer.from(await blob.slice(start, start + sliceSize).arrayBuffer()))
+  }
+  return hash.digest("hex")
+}
+
 export function requestTimeout(
   timeoutInMs = 0,
 ): Promise<{ response: HttpResponse }> {
@@ -187,6 +203,17 @@ export const getObsidianMimeType = (extension: string): string => {
   }
 }
 
+export const formatFileSize = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB", "TB"]
+  let size = bytes
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024
+    unit++
+  }
+  return `${unit ? size.toFixed(1) : size} ${units[unit]}`
+}
+
 export const sanitizeFileName = (filename: string): string => {
   // Replace spaces with underscores and remove any problematic characters
   return filename
@@ -201,6 +228,11 @@ export const normalizeUrlWithSlash = (url: string): string => {
   return url.endsWith("/") ? url : url + "/"
 }
 
+export const isWebUrl = (url: string): boolean => {
+  const trimmedUrl = url.trim()
+  return trimmedUrl.startsWith("http://") || trimmedUrl.startsWith("https://")
+}
+
 export const isS3Url = (url: string, contentUrl: string): boolean => {
   // Normalize the URLs for comparison
   const normalizedUrl = normalizeUrlWithSlash(url)
@@ -233,58 +265,94 @@ export const extractFileNameFromUrl = (url: string): string => {
   return filename
 }
 
+// http & https urls and s3agle:// references, stopping at the end of a link or tag attribute
+const LINK_URL_PATTERN = /(https?|s3agle):\/\/[^\s)"'<>]+/g
+
+// Where the file URL is in a matched URL. Online viewers wrap the file URL in their own URL, so look for the S3 URL inside it
+const getFileUrlSpan = (match: string, isS3Link: (url: string) => boolean): { start: number, end: number } => {
+  const nestedStart = match.slice(1).search(/(https?|s3agle):\/\//)
+  if (isS3Link(match) || nestedStart === -1) return { start: 0, end: match.length }
+  return { start: nestedStart + 1, end: match.endsWith("?raw=true") ? match.length - "?raw=true".length : match.length }
+}
+
 export const extractS3FileLinks = async (
   text: string,
   contentUrl: string,
 ): Promise<FileReference[]> => {
-  //regex to get http & https urls from the file
-  const regex = /(https?:\/\/[^\s]+)/g
-  const matches = text.matchAll(regex)
+  const isS3Link = (url: string) => isS3Url(url, contentUrl) || parseS3Reference(url) !== null
+  const matches = text.matchAll(LINK_URL_PATTERN)
   const links: FileReference[] = []
 
   for (const match of matches) {
-    const url = match[0]
-    if (!isS3Url(url, contentUrl)) continue
-    const name = extractFileNameFromUrl(url)
-
-    let referenceStart, referenceEnd
-
-    // Check for HTML tag
-    referenceStart = text.lastIndexOf("<", match.index)
-    referenceEnd = text.indexOf(">", match.index)
-    if (referenceStart !== -1 && referenceEnd !== -1) {
-      links.push({
-        path: url,
-        name,
-        reference: text.slice(referenceStart, referenceEnd + 1),
-      })
-      continue
-    }
+    const span = getFileUrlSpan(match[0], isS3Link)
+    const url = match[0].slice(span.start, span.end)
+    if (!isS3Link(url)) continue
+
+    const start = match.index || 0
+    links.push({
+      path: url,
+      name: extractFileNameFromUrl(url),
+      reference: getLinkReference(text, start, start + match[0].length),
+    })
+  }
 
-    // Check for Markdown link
-    referenceEnd = text.lastIndexOf(")", match.index)
-    if (referenceEnd !== -1) {
-      referenceStart = text.lastIndexOf("[", referenceEnd)
-      if (referenceStart !== -1) {
-        links.push({
-          path: url,
-          name,
-          reference: text.slice(referenceStart, referenceEnd + 1),
-        })
-        continue
-      }
+  return links
+}
+
+// Swap each S3 URL in the text for what replace returns, leaving it as it is when that is null.
+// Only whole URLs are replaced, never a URL that merely starts with one of them
+export const replaceS3FileLinks = (
+  text: string,
+  contentUrl: string,
+  replace: (url: string) => string | null,
+): { text: string, count: number } => {
+  const isS3Link = (url: string) => isS3Url(url, contentUrl) || parseS3Reference(url) !== null
+  let count = 0
+  const replaced = text.replace(LINK_URL_PATTERN, (match) => {
+    const { start, end } = getFileUrlSpan(match, isS3Link)
+    const url = match.slice(start, end)
+    const newUrl = isS3Link(url) ? replace(url) : null
+    if (newUrl === null) return match
+    count++
+    return match.slice(0, start) + newUrl + match.slice(end)
+  })
+  return { text: replaced, count }
+}
+
+// The HTML tag, markdown link or bare URL around the URL at text[start..end]
+const getLinkReference = (text: string, start: number, end: number): string => {
+  // Check for HTML tag, including the closing tag of elements like <iframe></iframe>.
+  // The tag has to be on the URL's own line, so a stray < or > in the prose around it is never taken for one
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1
+  const lineEnd = text.indexOf("\n", end) === -1 ? text.length : text.indexOf("\n", end)
+  const tagStart = text.lastIndexOf("<", start)
+  const tagEnd = text.indexOf(">", end)
+  const tagName = tagStart >= lineStart ? text.slice(tagStart).match(/^<([a-zA-Z][\w-]*)\b/)?.[1] : undefined
+  if (tagName && tagEnd !== -1 && tagEnd < lineEnd && !text.slice(tagStart, start).includes(">")) {
+    let referenceEnd = tagEnd + 1
+    if (text.startsWith(`</${tagName}>`, referenceEnd)) {
+      referenceEnd += tagName.length + 3
     }
+    return text.slice(tagStart, referenceEnd)
+  }
 
-    // If no HTML or Markdown syntax found, use the URL itself
-    links.push({ path: url, name, reference: url })
+  // Check for Markdown link or embed
+  if (text.slice(start - 2, start) === "](" && text[end] === ")") {
+    const textStart = text.lastIndexOf("[", start - 2)
+    if (textStart !== -1 && !text.slice(textStart, start).includes("\n")) {
+      const referenceStart = text[textStart - 1] === "!" ? textStart - 1 : textStart
+      return text.slice(referenceStart, end + 1)
+    }
   }
 
-  return links
+  // If no HTML or Markdown syntax found, use the URL itself
+  return text.slice(start, end)
 }
 
 export const extractLocalFileLinks = async (
   text: string,
   app: App,
+  sourcePath = "", // Path of the note the text is from, used to resolve short wikilinks
 ): Promise<FileReference[]> => {
   const listOfFiles: FileReference[] = []
   try {
@@ -294,14 +362,15 @@ export const extractLocalFileLinks = async (
 
     while ((match = localFileRegex.exec(text)) !== null) {
       // Extract the file path from either markdown link or embed
-      const filePath = decodeURIComponent(match[1] || match[2])
+      const filePath = decodeURIComponent(match[1] || match[3] || "")
 
       if (!filePath) continue // Skip if filePath is undefined or empty
 
-      // Normalize file paths that start with "file://"
-      const normalizedPath = filePath.replace(/^file:\/\/\//, "")
+      // Normalize file paths that start with "file://", and drop wikilink sizes and headings
+      const normalizedPath = filePath.replace(/^file:\/\/\//, "").split("|")[0].split("#")[0]
       // Check if the file exists in the vault
       const file = app.vault.getAbstractFileByPath(normalizedPath)
+        || (sourcePath ? app.metadataCache.getFirstLinkpathDest(normalizedPath, sourcePath) : null)
 
       // If it exists and is a file, push the file location and name to the list
       if (file instanceof TFile) {
@@ -320,6 +389,16 @@ export const extractLocalFileLinks = async (
   }
 }
 
+// Create a note with the results of a command, in the S3agle reports folder
+export const createReportNote = async (app: App, title: string, content: string): Promise<TFile> => {
+  const folderPath = "S3agle reports"
+  if (!(await app.vault.adapter.exists(folderPath))) {
+    await app.vault.createFolder(folderPath)
+  }
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-")
+  return app.vault.create(normalizePath(`${folderPath}/${title} ${timestamp}.md`), content)
+}
+
 export const getNoteContent = async (app: App): Promise<string> => {
   const editor = app.workspace.activeEditor?.editor
   if (!editor) throw new Error("No active editor found.")
@@ -356,6 +435,92 @@ export function getBaseVaultPath(app: App) {
   }
 }
 
+// Absolute path on disk of a file inside the vault
+export const getAbsoluteVaultPath = (app: App, vaultPath: string): string => {
+  let baseFilePath = getBaseVaultPath(app)
+  if (!baseFilePath.endsWith("/")) baseFilePath += "/"
+  const relativePath = vaultPath.replace(baseFilePath, "")
+  return baseFilePath + (relativePath.startsWith("/") ? relativePath.slice(1) : relativePath)
+}
+
+// URL the app can load a file outside the vault from, like an Eagle thumbnail
+export const getLocalResourceUrl = (absolutePath: string): string => {
+  const path = absolutePath.replace(/\\/g, "/").replace(/^\//, "")
+  return Platform.resourcePathPrefix + encodeURI(path).replace(/#/g, "%23").replace(/\?/g, "%3F")
+}
+
+// Folder inside the vault used for temporary copies of files
+export const getTempFolderPath = (settings: S3agleSettings): string => {
+  return normalizePath(settings.localUploadFolder ? settings.localUploadFolder + "/temp" : "S3agle-temporary-files")
+}
+
+const findInText = (content: string, target: string | RegExp): { index: number, length: number } | null => {
+  if (typeof target === "string") {
+    const index = content.indexOf(target)
+    return index === -1 ? null : { index, length: target.length }
+  }
+  const match = content.match(target)
+  return match && match.index !== undefined ? { index: match.index, length: match[0].length } : null
+}
+
+// Content of a note, from the editor if the note is open since it may not be saved yet
+export const readNote = async (app: App, notePath: string): Promise<string> => {
+  for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view
+    if (view instanceof MarkdownView && view.file?.path === notePath) return view.editor.getValue()
+  }
+  const noteFile = app.vault.getAbstractFileByPath(notePath)
+  return noteFile instanceof TFile ? app.vault.cachedRead(noteFile) : ""
+}
+
+// Text of the paragraph around the first match of target, without the match itself
+export const getSurroundingParagraph = (content: string, target: string | RegExp): string => {
+  const match = findInText(content, target)
+  if (!match) return ""
+  const start = content.lastIndexOf("\n\n", match.index)
+  const end = content.indexOf("\n\n", match.index + match.length)
+  const before = content.slice(start === -1 ? 0 : start, match.index)
+  const after = content.slice(match.index + match.length, end === -1 ? content.length : end)
+  return (before + after).trim()
+}
+
+// Replace the first match of target in a note, going through the editor if the note is open
+export const replaceInNote = async (
+  app: App,
+  notePath: string,
+  target: string | RegExp,
+  replacement: string,
+): Promise<boolean> => {
+  const findMatch = (content: string) => findInText(content, target)
+
+  for (const leaf of app.workspace.getLeavesOfType("markdown")) {
+    const view = leaf.view
+    if (!(view instanceof MarkdownView) || view.file?.path !== notePath) continue
+
+    const editor = view.editor
+    const match = findMatch(editor.getValue())
+    if (!match) return false
+    editor.replaceRange(
+      replacement,
+      editor.offsetToPos(match.index),
+      editor.offsetToPos(match.index + match.length),
+    )
+    return true
+  }
+
+  const noteFile = app.vault.getAbstractFileByPath(notePath)
+  if (!(noteFile instanceof TFile)) return false
+
+  let found = false
+  await app.vault.process(noteFile, (content) => {
+    const match = findMatch(content)
+    if (!match) return content
+    found = true
+    return content.slice(0, match.index) + replacement + content.slice(match.index + match.length)
+  })
+  return found
+}
+
 export const getDynamicFolderPath = (folderPath: string): string => {
   const now = new Date()
   const year = now.getFullYear()
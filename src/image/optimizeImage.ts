@@ -0,0 +1,99 @@
+import { Notice } from "obsidian"
+
+// Formats the canvas can decode and re-encode. GIFs and SVGs are left alone so animations and vectors survive
+const RASTER_TYPES = ["image/png", "image/jpeg", "image/webp", "image/avif", "image/bmp"]
+
+// Formats the user was told the canvas can't write, so the Notice shows once per format
+const unsupportedFormats = new Set<string>()
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/avif": "avif",
+}
+
+export type ImageRule = {
+  mimeTypes: string // Comma separated MIME types, image/* matches every raster image
+  minSize: number // KB, smaller files are uploaded as they are
+  maxDimension: number // Longest side in pixels, 0 keeps the original size
+  format: string // MIME type to convert to, empty to keep the original format
+  quality: number // 0-100, used by JPEG, WebP and AVIF
+  stripMetadata: boolean // Re-encode even when nothing else changes, which drops EXIF and GPS data
+}
+
+export const DEFAULT_IMAGE_RULE: ImageRule = {
+  mimeTypes: "image/*",
+  minSize: 0,
+  maxDimension: 2048,
+  format: "image/webp",
+  quality: 85,
+  stripMetadata: true,
+}
+
+// First rule that matches the type and size of the file
+export const findImageRule = (file: File, rules: ImageRule[]): ImageRule | undefined => {
+  if (!RASTER_TYPES.includes(file.type)) return undefined
+  return rules.find((rule) =>
+    file.size >= rule.minSize * 1024 &&
+    rule.mimeTypes.split(",").some((pattern) => matchesMimeType(file.type, pattern.trim())),
+  )
+}
+
+const matchesMimeType = (type: string, pattern: string): boolean => {
+  if (!pattern) return false
+  return pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+}
+
+// Resize and re-encode an image according to the first matching rule, or return it unchanged
+export const optimizeImage = async (file: File, rules: ImageRule[]): Promise<File> => {
+  const rule = findImageRule(file, rules)
+  if (!rule) return file
+
+  const bitmap = await createImageBitmap(file)
+  try {
+    const scale = rule.maxDimension > 0 ? Math.min(1, rule.maxDimension / Math.max(bitmap.width, bitmap.height)) : 1
+    const format = rule.format || file.type
+    if (scale === 1 && format === file.type && !rule.stripMetadata) return file
+
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.round(bitmap.width * scale)
+    canvas.height = Math.round(bitmap.height * scale)
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas is not available to optimize images.")
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+    let blob = await canvasToBlob(canvas, format, rule.quality / 100)
+    // The canvas silently falls back to PNG for formats it can't encode, AVIF on older versions or BMP for example
+    if (blob.type !== format && format !== file.type) {
+      if (!unsupportedFormats.has(format)) {
+        unsupportedFormats.add(format)
+        new Notice(`S3agle: This device can't write ${format} images, they keep their original format.`)
+      }
+      blob = await canvasToBlob(canvas, file.type, rule.quality / 100)
+    }
+    // Converting can make a file bigger, a photo turned into a PNG for example, so try the original format as well
+    if (blob.size >= file.size && blob.type !== file.type) {
+      const sameFormat = await canvasToBlob(canvas, file.type, rule.quality / 100)
+      if (sameFormat.size < blob.size) blob = sameFormat
+    }
+    // Still bigger, so the original is kept, unless the rule strips metadata, which only a re-encoded file is free of
+    if (blob.size >= file.size && !rule.stripMetadata) return file
+    // The name follows the format the canvas actually wrote, a BMP comes out as a PNG
+    return new File([blob], replaceExtension(file.name, blob.type), { type: blob.type })
+  } finally {
+    bitmap.close()
+  }
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode the image."))), type, quality)
+  })
+
+const replaceExtension = (fileName: string, type: string): string => {
+  const extension = EXTENSIONS[type]
+  if (!extension) return fileName
+  const dot = fileName.lastIndexOf(".")
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}.${extension}`
+}
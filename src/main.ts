@@ -3,15 +3,41 @@ import {
   Notice,
   Plugin,
   EditorPosition,
+  TFile,
 } from "obsidian"
 import {
   S3Client
 } from "@aws-sdk/client-s3"
-import type { pasteFunction } from "./types"
+import { createS3Client } from "./s3/createS3Client"
+import type { EagleSyncRecord, pasteFunction } from "./types"
 import { type S3agleSettings, S3agleSettingTab, DEFAULT_SETTINGS } from "./settings"
 import { downloadAllFilesCommand } from "./commands/downloadAllFiles"
+import { downloadVaultFilesCommand } from "./commands/downloadVaultFiles"
 import { uploadAllFilesCommand } from "./commands/uploadAllFiles"
-import { processFile } from "./processFile"
+import { uploadVaultFilesCommand, uploadVaultFilesDryRunCommand } from "./commands/uploadVaultFiles"
+import { retryFailedUploadsCommand } from "./commands/retryFailedUploads"
+import { abortMultipartUploadsCommand } from "./commands/abortMultipartUploads"
+import { cleanupOrphanedFilesCommand } from "./commands/cleanupOrphanedFiles"
+import { migrateBucketCommand } from "./commands/migrateBucket"
+import { getDestinations, prepareFile } from "./processFile"
+import { getNoteSettings } from "./noteSettings"
+import { askUploadChoice } from "./modals/uploadChoiceModal"
+import { UploadQueue, createJobId, uploadPlaceholder } from "./queue/uploadQueue"
+import { AttachmentIndex } from "./attachments/attachmentIndex"
+import { findAttachmentUsageCommand } from "./commands/findAttachmentUsage"
+import { explainNoteSettingsCommand } from "./commands/explainNoteSettings"
+import { insertEagleItemCommand } from "./commands/insertEagleItem"
+import { syncEagleMetadataCommand } from "./commands/syncEagleMetadata"
+import { EagleSync } from "./eagle/eagleSync"
+import { EagleItemTracker } from "./eagle/eagleItemTracker"
+import { offerToTrashEagleItems, trashUnusedEagleItemsCommand } from "./commands/trashUnusedEagleItems"
+import { getEnabledBackends, registerStorageBackend } from "./storage/storageBackend"
+import { s3Backend } from "./s3/s3Backend"
+import { vaultBackend } from "./vault/vaultBackend"
+import { eagleBackend } from "./eagle/eagleBackend"
+import { linkResolverExtension, registerLinkResolver, resolveLinksIn } from "./render/linkResolvers"
+import { clearDecryptedUrls, s3LinkResolver } from "./s3/s3LinkResolver"
+import { eagleLinkResolver } from "./eagle/eagleLinkResolver"
 
 /**
  * Main class for the S3agle Obsidian Plugin, extending the base Plugin class.
@@ -20,6 +46,11 @@ export default class S3aglePlugin extends Plugin {
   settings: S3agleSettings
   s3: S3Client
   pasteFunction: pasteFunction
+  uploadQueue: UploadQueue
+  attachmentIndex: AttachmentIndex
+  eagleSync: EagleSync
+  eagleItemTracker: EagleItemTracker
+  eagleSyncRecords: Record<string, Record<string, EagleSyncRecord>> // By Eagle item ID, then note path
 
   private replaceText(
     editor: Editor,
@@ -51,11 +82,6 @@ export default class S3aglePlugin extends Plugin {
       return
     }
 
-    // Check if any storage option is enabled
-    if (!this.settings.useS3 && !this.settings.useEagle && !this.settings.useVault) {
-      return
-    }
-
     // Get the current note
     const noteFile = this.app.workspace.getActiveFile()
     if (!noteFile || !noteFile.name) {
@@ -63,8 +89,13 @@ export default class S3aglePlugin extends Plugin {
       return
     }
 
-    // Get the frontmatter of the note to see if there are any settings overrides
-    const fm = this.app.metadataCache.getFileCache(noteFile)?.frontmatter
+    // The frontmatter of the note can override the settings
+    const settings = getNoteSettings(this.app, this.settings, noteFile.path)
+
+    // Check if any storage option is enabled
+    if (!getEnabledBackends(settings).length) {
+      return
+    }
 
     let files: File[] = []
     switch (ev.type) {
@@ -72,7 +103,7 @@ export default class S3aglePlugin extends Plugin {
         files = Array.from((ev as ClipboardEvent).clipboardData?.files || [])
         break
       case "drop":
-        if (!this.settings.uploadOnDrag && !(fm && fm.S3eagleUploadOnDrag)) {
+        if (!settings.uploadOnDrag) {
           return
         }
         files = Array.from((ev as DragEvent).dataTransfer?.files || [])
@@ -82,17 +113,20 @@ export default class S3aglePlugin extends Plugin {
     if (files.length > 0) {
       ev.preventDefault()
 
+      let destinations = getDestinations(settings)
+      if (settings.askOnPaste) {
+        const choice = await askUploadChoice(this.app, files)
+        if (!choice) return
+        if (choice === "vault") destinations = [vaultBackend.id]
+      }
+
       const uploads = files.map(async (file) => {
         const fileName = file.name
-        const placeholder = `![Uploading ${fileName}…]`
+        const id = createJobId()
+        const placeholder = uploadPlaceholder(id, `Uploading ${fileName}…`)
         editor.replaceSelection(placeholder)
         try {
-          await processFile(
-            file,
-            this.settings,
-            this.app,
-            placeholder,
-          )
+          await this.uploadQueue.enqueue(id, await prepareFile(file, settings), noteFile.path, destinations)
         } catch (error) {
           console.error("Error processing file:", error)
           new Notice(`S3agle: ${error.message}`)
@@ -106,36 +140,61 @@ export default class S3aglePlugin extends Plugin {
 
 
   async onload() {
+    [s3Backend, vaultBackend, eagleBackend].forEach(registerStorageBackend);
+    [s3LinkResolver, eagleLinkResolver].forEach(registerLinkResolver);
     await this.loadSettings();
     this.addSettingTab(new S3agleSettingTab(this.app, this));
 
-    if (this.settings.useS3) {
-      const apiEndpoint = this.settings.s3Url.startsWith("http")
-        ? this.settings.s3Url
-        : `https://${this.settings.s3Url}`;
-
-      if (!this.settings.s3Url) {
-        throw new Error("S3 URL is missing in the settings.");
-      }
+    // Links like s3agle://bucket/key and eagle://item/<id> are resolved when the note is shown, in reading view and live preview,
+    // with the settings of the note they are in, so a note's Eagle library is used for its items
+    const getResolverContext = (notePath?: string) => ({ app: this.app, settings: getNoteSettings(this.app, this.settings, notePath) });
+    this.registerMarkdownPostProcessor((el, ctx) => resolveLinksIn(el, getResolverContext(ctx.sourcePath)));
+    this.registerEditorExtension(linkResolverExtension(getResolverContext));
 
-      this.s3 = new S3Client({
-        region: this.settings.s3Region || undefined,  // Optional if the custom endpoint doesn't need it
-        credentials: {
-          accessKeyId: this.settings.accessKey,
-          secretAccessKey: this.settings.secretKey,
-        },
-        endpoint: apiEndpoint,  // Always use the s3Url from settings
-        forcePathStyle: this.settings.forcePathStyle,
-      });
+    if (this.settings.useS3) {
+      this.s3 = createS3Client(this.settings);
+      this.addCommand(abortMultipartUploadsCommand(this.app, this.settings));
+      this.addCommand(cleanupOrphanedFilesCommand(this));
+      this.addCommand(migrateBucketCommand(this.app, this.settings));
     }
 
     this.pasteFunction = this.pasteHandler.bind(this);
     this.registerEvent(this.app.workspace.on("editor-paste", this.pasteFunction));
     this.registerEvent(this.app.workspace.on("editor-drop", this.pasteFunction));
+    this.registerEvent(this.app.vault.on("rename", async (file, oldPath) => {
+      await this.uploadQueue.renameNote(oldPath, file.path);
+      await this.attachmentIndex.renamePath(oldPath, file.path);
+    }));
+
+    // Pick up uploads left over from the last session, then keep retrying anything that failed
+    this.app.workspace.onLayoutReady(() => this.uploadQueue.run());
+    this.registerInterval(window.setInterval(() => this.uploadQueue.run(), 5000));
+    this.addCommand(retryFailedUploadsCommand(this.uploadQueue));
+    this.addCommand(findAttachmentUsageCommand(this.app, this.attachmentIndex));
+    this.addCommand(explainNoteSettingsCommand(this.app, this.settings));
 
     if (this.settings.useS3 || this.settings.useEagle) {
-      this.addCommand(uploadAllFilesCommand(this.app, this.settings));
+      this.addCommand(uploadAllFilesCommand(this.app, this.settings, this.attachmentIndex));
+      this.addCommand(uploadVaultFilesCommand(this.app, this.settings, this.attachmentIndex));
+      this.addCommand(uploadVaultFilesDryRunCommand(this.app, this.settings, this.attachmentIndex));
       this.addCommand(downloadAllFilesCommand(this.app, this.settings));
+      this.addCommand(downloadVaultFilesCommand(this.app, this.settings, this.attachmentIndex));
+    }
+
+    if (this.settings.useEagle) {
+      this.eagleSync = new EagleSync(this);
+      this.eagleItemTracker = new EagleItemTracker(this);
+      this.addCommand(insertEagleItemCommand(this));
+      this.addCommand(syncEagleMetadataCommand(this.app, this.eagleSync));
+      this.addCommand(trashUnusedEagleItemsCommand(this));
+      this.registerEvent(this.app.vault.on("modify", (file) => {
+        if (!(file instanceof TFile) || file.extension !== "md") return;
+        if (this.settings.eagleSyncOnSave) this.eagleSync.schedule(file);
+        if (this.settings.eagleTrashOnNoteDelete) this.eagleItemTracker.update(file);
+      }));
+      this.registerEvent(this.app.vault.on("rename", (file, oldPath) => this.eagleSync.renameNote(oldPath, file.path)));
+      this.registerEvent(this.app.vault.on("delete", (file) => this.eagleSync.forgetNote(file.path)));
+      if (this.settings.eagleTrashOnNoteDelete) this.registerEagleTrashEvents();
     }
   }
 
@@ -144,13 +203,43 @@ export default class S3aglePlugin extends Plugin {
 
 
 
-  //Fetch the data from the plugin settings
+  onunload() {
+    clearDecryptedUrls();
+  }
+
+  // Keep track of the Eagle items each note links to, and offer to trash them when the last note linking to them is deleted
+  private registerEagleTrashEvents() {
+    this.app.workspace.onLayoutReady(async () => {
+      await this.eagleItemTracker.scanVault();
+      // Created before the layout is ready means loaded from disk, which the scan covers
+      this.registerEvent(this.app.vault.on("create", (file) => {
+        if (file instanceof TFile && file.extension === "md") this.eagleItemTracker.update(file);
+      }));
+    });
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => this.eagleItemTracker.rename(oldPath, file.path)));
+    this.registerEvent(this.app.vault.on("delete", (file) => {
+      if (!(file instanceof TFile) || file.extension !== "md") return;
+      const itemIds = this.eagleItemTracker.removeNote(file.path);
+      if (itemIds.length) offerToTrashEagleItems(this, itemIds);
+    }));
+  }
+
+  //Fetch the data from the plugin settings, the upload queue and attachment index are stored alongside them
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData())
+    const { uploadQueue, attachmentIndex, eagleSyncRecords, ...settings } = (await this.loadData()) || {}
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings)
+    this.eagleSyncRecords = eagleSyncRecords || {}
+    this.uploadQueue = new UploadQueue(this, uploadQueue || [])
+    this.attachmentIndex = new AttachmentIndex(this, attachmentIndex || {})
   }
 
   //Save the plugin settings
   async saveSettings() {
-    await this.saveData(this.settings)
+    await this.saveData({
+      ...this.settings,
+      uploadQueue: this.uploadQueue.jobs,
+      attachmentIndex: this.attachmentIndex.entries,
+      eagleSyncRecords: this.eagleSyncRecords,
+    })
   }
 }
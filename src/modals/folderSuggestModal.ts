@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal, TFolder } from "obsidian"
+
+// Pick a folder of the vault, the vault root is listed first as "/"
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  private onChoose: (folder: TFolder) => void
+
+  constructor(app: App, placeholder: string, onChoose: (folder: TFolder) => void) {
+    super(app)
+    this.onChoose = onChoose
+    this.setPlaceholder(placeholder)
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder)
+      .sort((a, b) => (a.isRoot() ? -1 : b.isRoot() ? 1 : a.path.localeCompare(b.path)))
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? "/" : folder.path
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder)
+  }
+}
@@ -0,0 +1,38 @@
+import { App, Modal, Setting } from "obsidian"
+
+export type UploadChoice = "upload" | "vault"
+
+// Ask whether pasted or dropped files are uploaded or only saved in the vault. Closing the modal adds nothing
+export const askUploadChoice = (app: App, files: File[]): Promise<UploadChoice | null> => {
+  return new Promise((resolve) => new UploadChoiceModal(app, files, resolve).open())
+}
+
+class UploadChoiceModal extends Modal {
+  private files: File[]
+  private onChoose: (choice: UploadChoice | null) => void
+  private choice: UploadChoice | null = null
+
+  constructor(app: App, files: File[], onChoose: (choice: UploadChoice | null) => void) {
+    super(app)
+    this.files = files
+    this.onChoose = onChoose
+  }
+
+  onOpen() {
+    const { contentEl, files } = this
+    this.titleEl.setText(files.length === 1 ? `Upload ${files[0].name}?` : `Upload ${files.length} files?`)
+
+    const choose = (choice: UploadChoice) => {
+      this.choice = choice
+      this.close()
+    }
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("Save in the vault").onClick(() => choose("vault")))
+      .addButton((button) => button.setButtonText("Upload").setCta().onClick(() => choose("upload")))
+  }
+
+  onClose() {
+    this.contentEl.empty()
+    this.onChoose(this.choice)
+  }
+}
@@ -0,0 +1,169 @@
+import { App, FrontMatterCache, Notice } from "obsidian"
+import { S3agleSettings } from "./settings"
+import { S3_PROFILE_FIELDS, applyS3Profile } from "./s3/s3Profiles"
+import { FolderRule, findFolderRule, parseFolderRuleProperties } from "./folderRules"
+
+type NoteSettingParser = (value: unknown, settings: S3agleSettings) => Partial<S3agleSettings>
+
+// Settings field that turns each destination on or off
+const DESTINATION_FIELDS: Record<string, "useS3" | "useVault" | "useEagle"> = {
+  s3: "useS3",
+  vault: "useVault",
+  eagle: "useEagle",
+}
+
+const toBoolean = (value: unknown): boolean => {
+  if (typeof value === "boolean") return value
+  if (value === "true" || value === "false") return value === "true"
+  throw new Error("must be true or false")
+}
+
+const toText = (value: unknown): string => {
+  if (typeof value === "string") return value.trim()
+  throw new Error("must be text")
+}
+
+const toList = (value: unknown): string[] => {
+  if (typeof value === "string") return value.split(",").map((item) => item.trim()).filter(Boolean)
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) return value.map((item) => item.trim()).filter(Boolean)
+  throw new Error("must be a list or comma separated text")
+}
+
+const toChoice = <T extends string>(choices: readonly T[]) => (value: unknown): T => {
+  if (choices.includes(value as T)) return value as T
+  throw new Error(`must be one of ${choices.join(", ")}`)
+}
+
+// For properties that are read elsewhere and don't change a setting
+const checkOnly = (check: (value: unknown) => unknown): NoteSettingParser => (value) => {
+  check(value)
+  return {}
+}
+
+const parseDestinations: NoteSettingParser = (value, settings) => {
+  const destinations = toList(value).map((destination) => destination.toLowerCase())
+  const unknown = destinations.filter((destination) => !DESTINATION_FIELDS[destination])
+  if (unknown.length) throw new Error(`has unknown destinations ${unknown.join(", ")}, use ${Object.keys(DESTINATION_FIELDS).join(", ")}`)
+  if (!destinations.length) throw new Error("needs at least one destination")
+
+  // The listed destinations are used in the order given, before the ones from the settings
+  const overrides: Partial<S3agleSettings> = {
+    backendOrder: [...destinations, ...settings.backendOrder.filter((id) => !destinations.includes(id))],
+  }
+  for (const [destination, field] of Object.entries(DESTINATION_FIELDS)) {
+    overrides[field] = destinations.includes(destination)
+  }
+  return overrides
+}
+
+const parseS3Profile: NoteSettingParser = (value, settings) => {
+  const name = toText(value)
+  const profile = settings.s3Profiles.find((profile) => profile.name === name)
+  if (!profile) throw new Error(`names no saved bucket profile "${name}"`)
+  // Only the profile fields count as overridden
+  const profileSettings = applyS3Profile(settings, profile)
+  return Object.fromEntries(S3_PROFILE_FIELDS.map((field) => [field, profileSettings[field]]))
+}
+
+/**
+ * Frontmatter properties a note, or a folder rule, can set to change how files are uploaded, in the order they are applied.
+ * S3agleEagleTags is read where it is used, and is only checked here.
+ */
+const NOTE_SETTINGS: Record<string, NoteSettingParser> = {
+  S3agleLocalOnly: (value) => (toBoolean(value) ? { useS3: false, useVault: true, useEagle: false } : {}),
+  S3agleDestinations: parseDestinations,
+  S3agleS3Profile: parseS3Profile,
+  S3agleS3Folder: (value) => ({ s3Folder: toText(value) }),
+  S3agleEagleFolder: (value) => ({ eagleFolder: toText(value) }),
+  S3agleEagleTags: checkOnly(toList),
+  S3agleEagleLibrary: (value) => ({ eagleLibrary: toText(value) }),
+  S3agleHashFileName: (value) => ({ hashFileName: toBoolean(value) }),
+  S3agleEmbedStyle: (value) => ({ embedStyle: toChoice(["embed", "link"] as const)(value) }),
+  S3agleAskOnPaste: (value) => ({ askOnPaste: toBoolean(value) }),
+  S3agleUploadOnDrag: (value) => ({ uploadOnDrag: toBoolean(value) }),
+  // Older notes use this spelling
+  S3eagleUploadOnDrag: (value) => ({ uploadOnDrag: toBoolean(value) }),
+}
+
+const NOTE_ONLY_PROPERTIES = ["S3agleEagleTags"]
+
+// Settings the frontmatter of a note, or the properties of a folder rule, override, and what is wrong with the properties that couldn't be used
+export const getNoteSettingOverrides = (
+  frontmatter: FrontMatterCache | Record<string, unknown> | undefined,
+  settings: S3agleSettings,
+): { overrides: Partial<S3agleSettings>, errors: string[] } => {
+  const overrides: Partial<S3agleSettings> = {}
+  const errors: string[] = []
+  for (const [property, parse] of Object.entries(NOTE_SETTINGS)) {
+    const value = frontmatter?.[property]
+    // An empty property is the same as leaving it out
+    if (value === undefined || value === null || value === "") continue
+    try {
+      Object.assign(overrides, parse(value, settings))
+    } catch (error) {
+      errors.push(`${property} ${error.message}`)
+    }
+  }
+  return { overrides, errors }
+}
+
+// Settings a folder rule overrides, and what is wrong with its properties
+export const getFolderRuleOverrides = (
+  rule: FolderRule,
+  settings: S3agleSettings,
+): { overrides: Partial<S3agleSettings>, errors: string[] } => {
+  let properties: Record<string, unknown>
+  try {
+    properties = parseFolderRuleProperties(rule)
+  } catch (error) {
+    return { overrides: {}, errors: [error.message] }
+  }
+  const { overrides, errors } = getNoteSettingOverrides(properties, settings)
+  // These are read from the frontmatter where they are used, so a rule can't set them
+  const noteOnly = NOTE_ONLY_PROPERTIES.filter((property) => property in properties)
+  return { overrides, errors: [...errors, ...noteOnly.map((property) => `${property} only works in frontmatter`)] }
+}
+
+export type NoteSettingsExplanation = {
+  folderRule?: { rule: FolderRule, index: number, overrides: Partial<S3agleSettings> } // The first folder rule that matches the note
+  noteOverrides: Partial<S3agleSettings> // From the frontmatter of the note, applied after the folder rule
+  errors: string[]
+  settings: S3agleSettings
+}
+
+// How the settings for a note come about: the plugin settings, then the first matching folder rule, then the note's frontmatter
+export const explainNoteSettings = (app: App, settings: S3agleSettings, notePath: string): NoteSettingsExplanation => {
+  const errors: string[] = []
+  let folderRule: NoteSettingsExplanation["folderRule"]
+  const match = findFolderRule(notePath, settings.folderRules)
+  if (match) {
+    const { overrides, errors: ruleErrors } = getFolderRuleOverrides(match.rule, settings)
+    folderRule = { ...match, overrides }
+    errors.push(...ruleErrors.map((error) => `Folder rule ${match.index + 1}: ${error}`))
+  }
+
+  const ruleSettings = { ...settings, ...folderRule?.overrides }
+  const frontmatter = app.metadataCache.getCache(notePath)?.frontmatter
+  const { overrides: noteOverrides, errors: noteErrors } = getNoteSettingOverrides(frontmatter, ruleSettings)
+  errors.push(...noteErrors)
+
+  return { folderRule, noteOverrides, errors, settings: { ...ruleSettings, ...noteOverrides } }
+}
+
+// Problems already shown for each note, so a note isn't reported again on every upload
+const reportedErrors = new Map<string, string>()
+
+// The settings for files added to a note, with its folder rule and frontmatter properties applied
+export const getNoteSettings = (app: App, settings: S3agleSettings, notePath?: string): S3agleSettings => {
+  if (!notePath) return settings
+  const explanation = explainNoteSettings(app, settings, notePath)
+
+  const report = explanation.errors.join("\n")
+  if (report && reportedErrors.get(notePath) !== report) {
+    new Notice(`S3agle: Ignoring invalid settings for ${notePath}:\n${report}`, 10000)
+  }
+  if (report) reportedErrors.set(notePath, report)
+  else reportedErrors.delete(notePath)
+
+  return explanation.settings
+}
@@ -1,59 +1,34 @@
 import { App, Editor, Notice } from "obsidian"
 import { S3agleSettings } from "./settings"
-import { saveFileToVault } from "./vault/saveFileToVault"
-import { uploadToS3 } from "./s3/uploadToS3"
-import { uploadToEagle } from "./eagle/uploadToEagle"
-import { getBaseVaultPath, getDynamicFolderPath } from "./helpers"
+import { UploadResults } from "./types"
+import { UploadContext, getEnabledBackends, getPrimaryBackendId, getStorageBackend } from "./storage/storageBackend"
+import { getSurroundingParagraph, hashContent, isWebUrl } from "./helpers"
+import { optimizeImage } from "./image/optimizeImage"
+import { AttachmentIndex } from "./attachments/attachmentIndex"
+import { getNoteSettings } from "./noteSettings"
 
 // Main function to process the file
-export const processFile = async (file: File, settings: S3agleSettings, app: App, placeholder: string) => {
+export const processFile = async (file: File, globalSettings: S3agleSettings, app: App, placeholder: string, index: AttachmentIndex) => {
   const editor: Editor | undefined = app.workspace.activeEditor?.editor
   if (!editor) throw new Error("No active editor found.")
 
   const noteFile = app.workspace.getActiveFile()
   if (!noteFile || !noteFile.name) return
 
-  const fm = app.metadataCache.getFileCache(noteFile)?.frontmatter
+  const settings = getNoteSettings(app, globalSettings, noteFile.path)
 
   try {
-    if (fm?.S3agleLocalOnly) {
-      await saveFileToVault(file, settings, app)
-    } else {
-      let s3Url = ""
-      let eagleUrl = ""  // eagleUrl is defined here
-      let vaultUrl = ""
-
-      if (settings.useS3) {
-        const folderPath = getDynamicFolderPath(settings.s3Folder || "")
-        s3Url = await uploadToS3(file, { ...settings, s3Folder: folderPath })
-      }
-      if (settings.useVault) {
-        vaultUrl = await saveFileToVault(file, settings, app)
-      }
-      if (settings.useEagle) {
-        // If the file was saved to S3, use the S3 URL to upload to Eagle
-        if (vaultUrl && settings.useVault && !settings.useS3) {
-          // Save file to temp vault path if not saved to vault already
-          if (!vaultUrl) { vaultUrl = await saveFileToVault(file, settings, app, true) }
-          // Get absolute Path of the file
-          let baseFilePath = getBaseVaultPath(app);
-          // Make sure the baseFilePath + combines correctly
-          if (!baseFilePath.endsWith("/")) baseFilePath += "/";
-          // Combine the baseFilePath with the vaultUrl
-          vaultUrl = vaultUrl.replace(baseFilePath, "");
-          if (vaultUrl.startsWith("/")) vaultUrl = vaultUrl.slice(1);
-          const absoluteFilePath = baseFilePath + vaultUrl;
-          eagleUrl = await uploadToEagle(absoluteFilePath, file.name, settings);
-        } else if (s3Url && settings.useS3) {
-          eagleUrl = await uploadToEagle(s3Url, file.name, settings);
-        } else {
-          // Eagle needs either local or S3 to be enabled to upload
-          new Notice("S3agle: Eagle needs either local or S3 to be enabled to upload.")
-        }
-      }
-      const filePreview = generateFilePreview(file, settings, s3Url, eagleUrl, vaultUrl)
-      replacePlaceholder(editor, placeholder, filePreview)
-    }
+    const destinations = getDestinations(settings)
+    const preparedFile = await prepareFile(file, settings)
+    // Content that was uploaded before is linked to where it already is
+    const hash = hashContent(await preparedFile.arrayBuffer())
+    const results = await uploadToDestinations(preparedFile, settings, app, destinations, {
+      results: await index.getKnownLocations(hash, destinations, settings),
+      note: { path: noteFile.path, paragraph: getSurroundingParagraph(editor.getValue(), placeholder) },
+    })
+    await index.record(preparedFile, hash, results, [noteFile.path])
+    const filePreview = generateFilePreview(preparedFile, settings, results)
+    replacePlaceholder(editor, placeholder, filePreview)
   } catch (error) {
     console.error("Error processing file:", error)
     new Notice(`S3agle: ${error.message}`)
@@ -61,14 +36,91 @@ export const processFile = async (file: File, settings: S3agleSettings, app: App
   }
 }
 
-const generateFilePreview = (file: File, settings: S3agleSettings, s3Url: string, eagleUrl: string, vaultUrl: string): string => {
+// Transform the file before it goes to any destination, every destination gets the same bytes
+export const prepareFile = async (file: File, settings: S3agleSettings): Promise<File> => {
+  try {
+    return await optimizeImage(file, settings.imageRules)
+  } catch (error) {
+    // An image the canvas can't read is still worth uploading as it is
+    console.error("Error optimizing image:", file.name, error)
+    return file
+  }
+}
+
+// Work out which storage backends a file should go to, pass the settings of the note to follow its overrides
+export const getDestinations = (settings: S3agleSettings): string[] => {
+  return getEnabledBackends(settings).map((backend) => backend.id)
+}
+
+type UploadOptions = Partial<Omit<UploadContext, "app" | "settings">>
+
+// Upload the file to each destination that isn't already in results.
+// results is filled in as destinations succeed, so a caller can keep the partial progress when one of them throws.
+export const uploadToDestinations = async (
+  file: File,
+  settings: S3agleSettings,
+  app: App,
+  destinations: string[],
+  { results = {}, ...options }: UploadOptions = {},
+): Promise<UploadResults> => {
+  for (const backendId of destinations) {
+    if (results[backendId]) continue
+    const backend = getStorageBackend(backendId)
+    if (!backend) throw new Error(`Unknown storage backend "${backendId}".`)
+    results[backendId] = await backend.upload(file, { app, settings, results, ...options })
+  }
+  return results
+}
+
+// Upload several files, each with the settings and destinations of its note, one destination after the other.
+// Backends with a batch API get all the files waiting for them at once.
+// Each file gets its results, or the error that stopped it. A failed file is left out of the destinations after it.
+export const uploadManyToDestinations = async (
+  uploads: { file: File, settings: S3agleSettings, destinations: string[], options?: UploadOptions }[],
+  app: App,
+): Promise<(UploadResults | Error)[]> => {
+  const outcomes: (UploadResults | Error)[] = uploads.map(({ options }) => options?.results || {})
+  const backendIds = Array.from(new Set(uploads.flatMap(({ destinations }) => destinations)))
+  for (const backendId of backendIds) {
+    const backend = getStorageBackend(backendId)
+    if (!backend) throw new Error(`Unknown storage backend "${backendId}".`)
+    const waiting = uploads
+      .map((upload, position) => ({ ...upload, position, results: outcomes[position] }))
+      .filter((upload): upload is typeof upload & { results: UploadResults } =>
+        upload.destinations.includes(backendId) && !(upload.results instanceof Error) && !upload.results[backendId],
+      )
+    if (!waiting.length) continue
+
+    const toContext = ({ options, settings, results }: typeof waiting[number]): UploadContext => ({ ...options, app, settings, results })
+    if (backend.uploadMany) {
+      try {
+        const locations = await backend.uploadMany(waiting.map((upload) => ({ file: upload.file, context: toContext(upload) })))
+        waiting.forEach(({ position, results }, waitingPosition) => {
+          const location = locations[waitingPosition]
+          if (location instanceof Error) outcomes[position] = location
+          else results[backendId] = location
+        })
+      } catch (error) {
+        waiting.forEach(({ position }) => (outcomes[position] = error))
+      }
+      continue
+    }
+    for (const upload of waiting) {
+      try {
+        upload.results[backendId] = await backend.upload(upload.file, toContext(upload))
+      } catch (error) {
+        outcomes[upload.position] = error
+      }
+    }
+  }
+  return outcomes
+}
+
+export const generateFilePreview = (file: File, settings: S3agleSettings, results: UploadResults): string => {
   const localBase = settings.localUpload ? "file://" + settings.localUploadFolder + "/" : ""
-  if (settings.useS3 && s3Url) {
-    return wrapFileDependingOnType(s3Url, detectFileType(file), localBase, settings, file.name)
-  } else if (settings.useVault && vaultUrl) {
-    return wrapFileDependingOnType(vaultUrl, detectFileType(file), localBase, settings, file.name)
-  } else if (settings.useEagle && eagleUrl) {
-    return wrapFileDependingOnType(eagleUrl, detectFileType(file), localBase, settings, file.name)
+  const primaryBackendId = getPrimaryBackendId(settings, results)
+  if (primaryBackendId) {
+    return wrapFileDependingOnType(results[primaryBackendId], detectFileType(file), localBase, settings, file.name)
   } else {
     return "ERROR WRAPPING FILE FOR FILE PREVIEW"
   }
@@ -115,40 +167,48 @@ const wrapFileDependingOnType = (
   settings: S3agleSettings,
   fileName = ""
 ) => {
+  if (settings.embedStyle === "link" && type !== "md") return `[${fileName}](${location})`
+
   const srcPrefix = localBase ? "file://" + localBase + "/" : ""
   const isLocationEagleUri = location.startsWith('eagle://')
+  // Online viewers need to fetch the file themselves, which only works for public URLs
+  const canUseViewer = !localBase && isWebUrl(location)
+
+  // Eagle item links are shown through the Eagle API when the note is rendered, other files link to the item in Eagle
+  if (isLocationEagleUri) {
+    if (type === "image") return `![${fileName}](${location})`
+    if (type === "video") return `<video src="${location}" controls />`
+    if (type === "audio") return `<audio src="${location}" controls />`
+    return `[${fileName}](${location})`
+  }
 
   if (type === "image") {
-    return isLocationEagleUri ? `[${fileName}](${location})` : `![${fileName}](${location})`
+    return `![${fileName}](${location})`
   } else if (type === "video") {
     return `<video src="${srcPrefix}${location}" controls />`
   } else if (type === "audio") {
     return `<audio src="${srcPrefix}${location}" controls />`
   } else if (type === "pdf") {
-    if (settings.useGoogleDocsViewer && !localBase) {
+    if (settings.useGoogleDocsViewer && canUseViewer) {
       return `<iframe frameborder=0 border=0 width=100% height=800 src="https://docs.google.com/viewer?embedded=true&url=${location}?raw=true"></iframe>`
     } else {
       return `[pdf](${location})`
     }
   } else if (type === "ppt") {
-    if (settings.useMicrosoftOfficeViewer && !localBase) {
+    if (settings.useMicrosoftOfficeViewer && canUseViewer) {
       return `<iframe src='https://view.officeapps.live.com/op/embed.aspx?src=${location}' width='100%' height='600px' frameborder='0'></iframe>`
     } else {
       return `[ppt](${location})`
     }
   } else if (type === "doc") {
-    if (settings.useMicrosoftOfficeViewer && !localBase) {
+    if (settings.useMicrosoftOfficeViewer && canUseViewer) {
       return `<iframe src='https://view.officeapps.live.com/op/embed.aspx?src=${location}' width='100%' height='600px' frameborder='0'></iframe>`
     } else {
       return `[${fileName}](${location})`
     }
   } else if (type === "md") {
-    if (isLocationEagleUri) {
-      return `[${fileName}](${location})`
-    } else {
-      const obsidianPath = location.split("/").pop()?.split(".")[0]
-      return `[[${obsidianPath}]]`
-    }
+    const obsidianPath = location.split("/").pop()?.split(".")[0]
+    return `[[${obsidianPath}]]`
   } else {
     return `[${fileName}](${location})`
   }
@@ -0,0 +1,312 @@
+import { Notice, normalizePath } from "obsidian"
+import { randomUUID } from "crypto"
+import type S3aglePlugin from "../main"
+import { UploadJob } from "../types"
+import { generateFilePreview, uploadToDestinations } from "../processFile"
+import { getNoteSettings } from "../noteSettings"
+import { UploadContext, getPrimaryBackendId, getStorageBackend } from "../storage/storageBackend"
+import { getSurroundingParagraph, getTempFolderPath, hashContent, readNote, replaceInNote, sanitizeFileName } from "../helpers"
+
+const MAX_RETRY_DELAY = 60 * 60 * 1000 // Never wait more than an hour between attempts
+
+export const createJobId = (): string => randomUUID().slice(0, 8)
+
+// Text put in the note while a job is waiting, tagged with the job ID so it can be found again after a restart
+export const uploadPlaceholder = (id: string, text: string): string => `![S3agle:${id} ${text}]`
+
+const placeholderPattern = (id: string): RegExp => new RegExp(`!\\[S3agle:${id} [^\\]\\n]*\\]`)
+
+/**
+ * Uploads saved in plugin data so they survive failures and restarts.
+ * Each job keeps a copy of the file in the vault temp folder until every destination has succeeded.
+ */
+export class UploadQueue {
+  jobs: UploadJob[] = []
+  private plugin: S3aglePlugin
+  private running = new Set<string>()
+
+  constructor(plugin: S3aglePlugin, jobs: UploadJob[] = []) {
+    this.plugin = plugin
+    this.jobs = jobs
+  }
+
+  // Stash the file in the vault and add a job for it
+  async enqueue(id: string, file: File, notePath: string, destinations: string[]): Promise<UploadJob> {
+    const folderPath = getTempFolderPath(this.plugin.settings)
+    if (!(await this.plugin.app.vault.adapter.exists(folderPath))) {
+      await this.plugin.app.vault.createFolder(folderPath)
+    }
+    const stashPath = normalizePath(`${folderPath}/${id}-${sanitizeFileName(file.name)}`)
+    const data = await file.arrayBuffer()
+    await this.plugin.app.vault.adapter.writeBinary(stashPath, data)
+
+    const job: UploadJob = {
+      id,
+      fileName: file.name,
+      mimeType: file.type,
+      stashPath,
+      notePath,
+      destinations,
+      results: {},
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      status: "pending",
+      hash: hashContent(data),
+    }
+    this.jobs.push(job)
+    await this.plugin.saveSettings()
+    this.run()
+    return job
+  }
+
+  // Run every pending job that is due
+  async run(): Promise<void> {
+    const now = Date.now()
+    const due = this.jobs.filter((job) =>
+      job.status === "pending" && job.nextAttemptAt <= now && !this.running.has(job.id),
+    )
+    await Promise.all([...due.map((job) => this.runJob(job)), this.runDeferred()])
+  }
+
+  // Put failed jobs back in the queue with a fresh set of attempts
+  async retryFailed(): Promise<number> {
+    const failed = this.jobs.filter((job) => job.status === "failed")
+    for (const job of failed) {
+      job.status = job.linked ? "deferred" : "pending"
+      job.attempts = 0
+      job.nextAttemptAt = Date.now()
+      if (!job.linked) await replaceInNote(this.plugin.app, job.notePath, placeholderPattern(job.id), uploadPlaceholder(job.id, `Uploading ${job.fileName}…`))
+    }
+    await this.plugin.saveSettings()
+    this.run()
+    return failed.length
+  }
+
+  // Keep jobs pointing at their note when it is renamed
+  async renameNote(oldPath: string, newPath: string): Promise<void> {
+    const moved = this.jobs.filter((job) => job.notePath === oldPath)
+    if (!moved.length) return
+    moved.forEach((job) => (job.notePath = newPath))
+    await this.plugin.saveSettings()
+  }
+
+  private async runJob(job: UploadJob): Promise<void> {
+    const { app, attachmentIndex } = this.plugin
+    const settings = getNoteSettings(app, this.plugin.settings, job.notePath)
+    this.running.add(job.id)
+    try {
+      job.attempts++
+      if (!(await app.vault.adapter.exists(job.stashPath))) {
+        // Retrying can't bring the copy back
+        await this.fail(job, new Error(`Temporary copy of ${job.fileName} is missing.`), false)
+        return
+      }
+      const { file, hash } = await this.readStash(job)
+
+      let offline: string[] = []
+      try {
+        // Content that was uploaded before is linked to where it already is
+        const remaining = job.destinations.filter((backendId) => !job.results[backendId])
+        Object.assign(job.results, await attachmentIndex.getKnownLocations(hash, remaining, settings))
+
+        // Offline destinations wait, as long as the file can be linked from one of the others
+        offline = await this.getOfflineDestinations(job)
+        const online = job.destinations.filter((backendId) => !offline.includes(backendId))
+        if (!online.length) throw new Error(`${this.getBackendNames(offline)} is not available.`)
+
+        const paragraph = getSurroundingParagraph(await readNote(app, job.notePath), placeholderPattern(job.id))
+        await uploadToDestinations(file, settings, app, online, {
+          results: job.results,
+          stashPath: job.stashPath,
+          onProgress: this.progressReporter(job),
+          note: { path: job.notePath, paragraph },
+          pending: (job.pending = job.pending || {}),
+        })
+      } finally {
+        // Save whatever destinations succeeded so a retry doesn't redo them
+        await this.plugin.saveSettings()
+      }
+
+      await attachmentIndex.record(file, hash, job.results, [job.notePath])
+      const preview = generateFilePreview(file, settings, job.results)
+      const replaced = await replaceInNote(app, job.notePath, placeholderPattern(job.id), preview)
+      if (!replaced) {
+        new Notice(`S3agle: Uploaded ${job.fileName}, but its placeholder was not found in ${job.notePath}.`)
+      }
+      if (offline.length) {
+        job.status = "deferred"
+        job.linked = true
+        // The destinations left over get their own attempts
+        job.attempts = 0
+        new Notice(`S3agle: ${this.getBackendNames(offline)} is not available, ${job.fileName} will be added once it is.`)
+        await this.plugin.saveSettings()
+      } else {
+        await this.remove(job)
+      }
+    } catch (error) {
+      console.error("Error processing queued upload:", error)
+      await this.fail(job, error)
+    } finally {
+      this.running.delete(job.id)
+    }
+  }
+
+  // Upload deferred jobs to the destinations that are back online, together for backends with a batch API.
+  // The note already links to the file, so only the attachment index is updated
+  private async runDeferred(): Promise<void> {
+    const { app, settings, attachmentIndex } = this.plugin
+    const now = Date.now()
+    const deferred = this.jobs.filter((job) =>
+      job.status === "deferred" && job.nextAttemptAt <= now && !this.running.has(job.id),
+    )
+    const byBackend = new Map<string, UploadJob[]>()
+    for (const job of deferred) {
+      for (const backendId of job.destinations.filter((destination) => !job.results[destination])) {
+        byBackend.set(backendId, [...(byBackend.get(backendId) || []), job])
+      }
+    }
+
+    for (const [backendId, jobs] of byBackend) {
+      const backend = getStorageBackend(backendId)
+      if (!backend || (backend.isAvailable && !(await backend.isAvailable({ app, settings })))) continue
+      const ready = jobs.filter((job) => !this.running.has(job.id))
+      ready.forEach((job) => this.running.add(job.id))
+      try {
+        // A job whose temp copy can't be read fails on its own, the others still go in the batch
+        const uploads: { job: UploadJob, file: File, hash: string, context: UploadContext }[] = []
+        for (const job of ready) {
+          try {
+            uploads.push(await this.prepareDeferred(job))
+          } catch (error) {
+            console.error(`Error preparing deferred upload of ${job.fileName}:`, error)
+            job.attempts++
+            // Retrying can't bring back a copy that is gone
+            const stashExists = await app.vault.adapter.exists(job.stashPath).catch(() => true)
+            await this.fail(job, error, stashExists)
+          }
+        }
+        if (!uploads.length) continue
+
+        try {
+          const locations = backend.uploadMany
+            ? await backend.uploadMany(uploads)
+            : await Promise.all(uploads.map(({ file, context }) => backend.upload(file, context).catch((error: Error) => error)))
+
+          // Each job keeps what succeeded, the others count an attempt and back off
+          for (const [position, { job, file, hash }] of uploads.entries()) {
+            const location = locations[position]
+            job.attempts++
+            if (location instanceof Error) {
+              console.error(`Error adding deferred upload of ${job.fileName} to ${backend.name}:`, location)
+              await this.fail(job, location)
+              continue
+            }
+            job.results[backendId] = location
+            await attachmentIndex.record(file, hash, job.results, [job.notePath])
+            if (job.destinations.every((destination) => job.results[destination])) await this.remove(job)
+          }
+          await this.plugin.saveSettings()
+        } catch (error) {
+          console.error(`Error adding deferred uploads to ${backend.name}:`, error)
+          for (const { job } of uploads) {
+            job.attempts++
+            await this.fail(job, error)
+          }
+        }
+      } finally {
+        ready.forEach((job) => this.running.delete(job.id))
+      }
+    }
+  }
+
+  // The file of a deferred job and the context to upload it with, the note settings and the paragraph around its link
+  private async prepareDeferred(job: UploadJob): Promise<{ job: UploadJob, file: File, hash: string, context: UploadContext }> {
+    const { app, settings } = this.plugin
+    const { file, hash } = await this.readStash(job)
+    const noteSettings = getNoteSettings(app, settings, job.notePath)
+    const link = job.results[getPrimaryBackendId(noteSettings, job.results) || ""] || ""
+    const paragraph = getSurroundingParagraph(await readNote(app, job.notePath), link)
+    const context: UploadContext = {
+      app,
+      settings: noteSettings,
+      results: job.results,
+      stashPath: job.stashPath,
+      note: { path: job.notePath, paragraph },
+      pending: (job.pending = job.pending || {}),
+    }
+    return { job, file, hash, context }
+  }
+
+  private async readStash(job: UploadJob): Promise<{ file: File, hash: string }> {
+    const data = await this.plugin.app.vault.adapter.readBinary(job.stashPath)
+    return { file: new File([data], job.fileName, { type: job.mimeType }), hash: job.hash || hashContent(data) }
+  }
+
+  // Destinations still to upload to whose backend says it is offline
+  private async getOfflineDestinations(job: UploadJob): Promise<string[]> {
+    const { app, settings } = this.plugin
+    const offline: string[] = []
+    for (const backendId of job.destinations) {
+      const backend = getStorageBackend(backendId)
+      if (job.results[backendId] || !backend?.isAvailable) continue
+      if (!(await backend.isAvailable({ app, settings }))) offline.push(backendId)
+    }
+    return offline
+  }
+
+  private getBackendNames(backendIds: string[]): string {
+    return backendIds.map((backendId) => getStorageBackend(backendId)?.name || backendId).join(", ")
+  }
+
+  // Show upload progress in the placeholder, only rewriting the note when the percentage moves by a few points
+  private progressReporter(job: UploadJob): (fraction: number) => void {
+    let shownPercent = 0
+    return (fraction) => {
+      const percent = Math.floor(fraction * 100)
+      if (percent >= 100 || percent - shownPercent < 5) return
+      shownPercent = percent
+      replaceInNote(
+        this.plugin.app,
+        job.notePath,
+        placeholderPattern(job.id),
+        uploadPlaceholder(job.id, `Uploading ${job.fileName}… ${percent}%`),
+      ).catch((error) => console.error("Error updating upload progress:", error))
+    }
+  }
+
+  // Back off exponentially, or mark the job as failed once it runs out of attempts or can't be retried.
+  // The placeholder of a job that is already linked in the note is gone, so only the notice tells about it
+  private async fail(job: UploadJob, error: Error, canRetry = true): Promise<void> {
+    const { app, settings } = this.plugin
+    job.lastError = error.message
+
+    if (!canRetry || job.attempts >= settings.uploadRetryLimit) {
+      job.status = "failed"
+      new Notice(`S3agle: Failed to upload ${job.fileName}: ${error.message}`)
+      if (!job.linked) {
+        await replaceInNote(app, job.notePath, placeholderPattern(job.id), uploadPlaceholder(job.id, `Error uploading ${job.fileName}`))
+      }
+    } else {
+      const delay = Math.min(settings.uploadRetryDelay * 1000 * 2 ** (job.attempts - 1), MAX_RETRY_DELAY)
+      job.nextAttemptAt = Date.now() + delay
+      new Notice(`S3agle: Upload of ${job.fileName} failed, retrying in ${Math.round(delay / 1000)}s.`)
+      if (!job.linked) {
+        await replaceInNote(
+          app,
+          job.notePath,
+          placeholderPattern(job.id),
+          uploadPlaceholder(job.id, `Retrying ${job.fileName}… (${job.attempts}/${settings.uploadRetryLimit})`),
+        )
+      }
+    }
+    await this.plugin.saveSettings()
+  }
+
+  private async remove(job: UploadJob): Promise<void> {
+    this.jobs = this.jobs.filter((queued) => queued.id !== job.id)
+    if (await this.plugin.app.vault.adapter.exists(job.stashPath)) {
+      await this.plugin.app.vault.adapter.remove(job.stashPath)
+    }
+    await this.plugin.saveSettings()
+  }
+}
@@ -0,0 +1,103 @@
+import { EditorView, ViewPlugin } from "@codemirror/view"
+import { editorInfoField } from "obsidian"
+import { BackendContext } from "../storage/storageBackend"
+
+/**
+ * Turns a link written in the note into one the browser can load, for links that only make sense to the plugin.
+ */
+export interface LinkResolver {
+  matches(link: string): boolean
+  resolve(link: string, context: BackendContext): Promise<string>
+  // Only resolve files embedded in the note, links are left as they are
+  embedsOnly?: boolean
+}
+
+const resolvers: LinkResolver[] = []
+
+export const registerLinkResolver = (resolver: LinkResolver): void => {
+  resolvers.push(resolver)
+}
+
+const LINK_ATTRIBUTES: [string, string][] = [
+  ["img", "src"],
+  ["video", "src"],
+  ["audio", "src"],
+  ["source", "src"],
+  ["iframe", "src"],
+  ["a", "href"],
+]
+
+const EMBED_TAGS = ["img", "video", "audio", "iframe"]
+
+// Resolve the link in one attribute of an element. The original link is kept in data-s3agle-link so it is only resolved once
+const resolveLink = (target: HTMLElement, attribute: string, context: BackendContext): void => {
+  const tag = target.tagName.toLowerCase()
+  const link = target.getAttribute(attribute)
+  if (!link || target.dataset.s3agleLink === link) return
+  const resolver = resolvers.find((candidate) => candidate.matches(link) && !(candidate.embedsOnly && tag === "a"))
+  if (!resolver) return
+
+  target.dataset.s3agleLink = link
+  resolver.resolve(link, context)
+    .then((resolvedLink) => target.setAttribute(attribute, resolvedLink))
+    .catch((error) => {
+      console.error("Error resolving link:", link, error)
+      target.addClass("s3agle-unresolved")
+      target.setAttribute("title", `S3agle: ${error.message}`)
+      // A broken embed doesn't say why, so show the reason next to it
+      if (EMBED_TAGS.includes(tag)) {
+        target.insertAdjacentElement("afterend", createSpan({ cls: "s3agle-unresolved-message", text: `S3agle: ${error.message}` }))
+      }
+    })
+}
+
+// Resolve every matching link inside an element, and on the element itself
+export const resolveLinksIn = (el: HTMLElement, context: BackendContext): void => {
+  for (const [tag, attribute] of LINK_ATTRIBUTES) {
+    const selector = `${tag}[${attribute}]`
+    if (el.matches(selector)) resolveLink(el, attribute, context)
+    el.querySelectorAll<HTMLElement>(selector).forEach((target) => resolveLink(target, attribute, context))
+  }
+}
+
+const isLinkAttribute = (el: Element, attribute: string): boolean => {
+  const tag = el.tagName.toLowerCase()
+  return LINK_ATTRIBUTES.some(([linkTag, linkAttribute]) => linkTag === tag && linkAttribute === attribute)
+}
+
+// Live preview renders embeds as widgets that come and go, so watch the editor DOM for new links.
+// Only the nodes that were added and the links that changed are looked at, not the whole editor.
+// The context is asked for each time, since the editor can be reused for another note
+export const linkResolverExtension = (getContext: (notePath?: string) => BackendContext) => ViewPlugin.fromClass(class {
+  observer: MutationObserver
+
+  constructor(view: EditorView) {
+    const getNoteContext = () => getContext(view.state.field(editorInfoField, false)?.file?.path)
+    this.observer = new MutationObserver((records) => {
+      const context = getNoteContext()
+      for (const record of records) {
+        if (record.type === "attributes") {
+          const target = record.target
+          if (target instanceof HTMLElement && record.attributeName && isLinkAttribute(target, record.attributeName)) {
+            resolveLink(target, record.attributeName, context)
+          }
+          continue
+        }
+        record.addedNodes.forEach((node) => {
+          if (node instanceof HTMLElement) resolveLinksIn(node, context)
+        })
+      }
+    })
+    this.observer.observe(view.contentDOM, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ["src", "href"],
+    })
+    resolveLinksIn(view.contentDOM, getNoteContext())
+  }
+
+  destroy() {
+    this.observer.disconnect()
+  }
+})
@@ -0,0 +1,66 @@
+import { App } from "obsidian"
+import { S3agleSettings } from "../settings"
+import { FileReference } from "../types"
+import { extractS3FileLinks } from "../helpers"
+import { getS3BaseUrl, getS3KeyFromUrl } from "./s3ObjectUrl"
+import { getS3LinkSettings } from "./s3Profiles"
+import { getNoteSettings } from "../noteSettings"
+
+export type NoteS3Links = {
+  notePath: string
+  links: FileReference[]
+}
+
+export type ProfileS3Link = FileReference & {
+  settings: S3agleSettings // Settings of the bucket profile the link was written with
+}
+
+export type NoteProfileS3Links = {
+  notePath: string
+  links: ProfileS3Link[]
+}
+
+const getNotesIn = (app: App, folderPath: string) => {
+  const folderPrefix = folderPath && folderPath !== "/" ? folderPath.replace(/\/+$/, "") + "/" : ""
+  return app.vault.getMarkdownFiles().filter((note) => note.path.startsWith(folderPrefix))
+}
+
+// Every link to the S3 bucket in the notes of the vault, or only in the notes under folderPath
+export const collectVaultS3Links = async (
+  app: App,
+  settings: S3agleSettings,
+  folderPath = "",
+): Promise<NoteS3Links[]> => {
+  const notes = getNotesIn(app, folderPath)
+  const contentUrl = getS3BaseUrl(settings)
+
+  const results: NoteS3Links[] = []
+  for (const note of notes) {
+    const links = await extractS3FileLinks(await app.vault.cachedRead(note), contentUrl)
+    if (links.length) results.push({ notePath: note.path, links })
+  }
+  return results
+}
+
+// Every link to a bucket of the note's settings or of a saved profile in the notes under folderPath,
+// each with the settings that can download it. Links to buckets no profile knows are left out
+export const collectVaultProfileS3Links = async (
+  app: App,
+  settings: S3agleSettings,
+  folderPath = "",
+): Promise<NoteProfileS3Links[]> => {
+  const results: NoteProfileS3Links[] = []
+  for (const note of getNotesIn(app, folderPath)) {
+    const linkSettings = getS3LinkSettings(getNoteSettings(app, settings, note.path))
+    const content = await app.vault.cachedRead(note)
+    const links: ProfileS3Link[] = []
+    for (const candidate of linkSettings) {
+      for (const link of await extractS3FileLinks(content, getS3BaseUrl(candidate))) {
+        if (getS3KeyFromUrl(link.path, candidate) === null || links.some((known) => known.path === link.path)) continue
+        links.push({ ...link, settings: candidate })
+      }
+    }
+    if (links.length) results.push({ notePath: note.path, links })
+  }
+  return results
+}
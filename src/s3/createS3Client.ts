@@ -0,0 +1,21 @@
+import { S3Client } from "@aws-sdk/client-s3"
+import { S3agleSettings } from "../settings"
+
+// Build an S3 client from the plugin settings
+export const createS3Client = (settings: S3agleSettings): S3Client => {
+  if (!settings.s3Url) {
+    throw new Error("S3 URL is missing in the settings.")
+  }
+
+  return new S3Client({
+    region: settings.s3Region || undefined,  // Optional if the custom endpoint doesn't need it
+    credentials: {
+      accessKeyId: settings.accessKey,
+      secretAccessKey: settings.secretKey,
+    },
+    endpoint: settings.s3Url.startsWith("http")
+      ? settings.s3Url
+      : `https://${settings.s3Url}`,  // Always use the s3Url from settings
+    forcePathStyle: settings.forcePathStyle,
+  })
+}
@@ -0,0 +1,24 @@
+import { DeleteObjectsCommand } from "@aws-sdk/client-s3"
+import { S3agleSettings } from "../settings"
+import { createS3Client } from "./createS3Client"
+
+const MAX_KEYS_PER_REQUEST = 1000 // Limit of the DeleteObjects API
+
+// Delete objects from the bucket, returns the keys that could not be deleted
+export const deleteS3Objects = async (keys: string[], settings: S3agleSettings): Promise<string[]> => {
+  const s3Client = createS3Client(settings)
+  const failed: string[] = []
+
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_REQUEST) {
+    const batch = keys.slice(i, i + MAX_KEYS_PER_REQUEST)
+    const response = await s3Client.send(new DeleteObjectsCommand({
+      Bucket: settings.bucket,
+      Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+    }))
+    for (const error of response.Errors || []) {
+      console.error("Failed to delete S3 object:", error.Key, error.Message)
+      if (error.Key) failed.push(error.Key)
+    }
+  }
+  return failed
+}
@@ -0,0 +1,24 @@
+import { GetObjectCommand } from "@aws-sdk/client-s3"
+import { BackendContext } from "../storage/storageBackend"
+import { decryptFile, getDecryptedContentType, isEncrypted } from "../encryption/encryption"
+import { getPassphrase } from "../encryption/passphrase"
+import { createS3Client } from "./createS3Client"
+import { getS3SettingsForBucket } from "./s3Profiles"
+
+// Bytes and content type of an object, decrypted if it was encrypted on upload
+export const downloadS3Object = async (
+  bucket: string,
+  key: string,
+  { app, settings }: BackendContext,
+): Promise<{ data: Uint8Array, contentType: string }> => {
+  const response = await createS3Client(getS3SettingsForBucket(settings, bucket)).send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+  if (!response.Body) throw new Error(`S3 returned an empty body for ${key}.`)
+  const data = await response.Body.transformToByteArray()
+
+  if (!isEncrypted(response.Metadata)) return { data, contentType: response.ContentType || "" }
+  const metadata = response.Metadata || {}
+  return {
+    data: await decryptFile(data, metadata, await getPassphrase(app, settings)),
+    contentType: getDecryptedContentType(metadata),
+  }
+}
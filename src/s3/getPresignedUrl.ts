@@ -0,0 +1,29 @@
+import { GetObjectCommand } from "@aws-sdk/client-s3"
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
+import { S3agleSettings } from "../settings"
+import { createS3Client } from "./createS3Client"
+import { getS3SettingsForBucket } from "./s3Profiles"
+
+const EXPIRY_MARGIN = 60 * 1000 // Sign again when less than a minute is left, so a URL doesn't expire mid-load
+
+// Signed URLs by bucket/key, reused until they are about to expire
+const signedUrls = new Map<string, { url: string, expiresAt: number }>()
+
+export const getPresignedUrl = async (bucket: string, key: string, settings: S3agleSettings): Promise<string> => {
+  const now = Date.now()
+  signedUrls.forEach((signed, cacheKey) => {
+    if (signed.expiresAt - now < EXPIRY_MARGIN) signedUrls.delete(cacheKey)
+  })
+
+  const cacheKey = `${bucket}/${key}`
+  const cached = signedUrls.get(cacheKey)
+  if (cached) return cached.url
+
+  const url = await getSignedUrl(
+    createS3Client(getS3SettingsForBucket(settings, bucket)),
+    new GetObjectCommand({ Bucket: bucket, Key: key }),
+    { expiresIn: settings.presignedUrlExpiry },
+  )
+  signedUrls.set(cacheKey, { url, expiresAt: now + settings.presignedUrlExpiry * 1000 })
+  return url
+}
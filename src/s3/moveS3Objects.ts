@@ -0,0 +1,33 @@
+import { CopyObjectCommand } from "@aws-sdk/client-s3"
+import { S3agleSettings } from "../settings"
+import { createS3Client } from "./createS3Client"
+import { deleteS3Objects } from "./deleteS3Objects"
+import { getS3Key } from "./s3ObjectUrl"
+
+// Copy source header value, which has to be URL encoded apart from the slashes
+export const getCopySource = (bucket: string, key: string): string => {
+  return `${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`
+}
+
+// Move objects under another prefix with a server side copy, returns the keys that could not be moved
+export const moveS3Objects = async (keys: string[], prefix: string, settings: S3agleSettings): Promise<string[]> => {
+  const s3Client = createS3Client(settings)
+  const copied: string[] = []
+  const failed: string[] = []
+
+  for (const key of keys) {
+    try {
+      await s3Client.send(new CopyObjectCommand({
+        Bucket: settings.bucket,
+        Key: getS3Key(prefix, key),
+        CopySource: getCopySource(settings.bucket, key),
+      }))
+      copied.push(key)
+    } catch (error) {
+      console.error("Failed to copy S3 object:", key, error)
+      failed.push(key)
+    }
+  }
+
+  return [...failed, ...(await deleteS3Objects(copied, settings))]
+}
@@ -0,0 +1,77 @@
+import { HeadObjectCommand, HeadObjectCommandOutput, S3Client } from "@aws-sdk/client-s3"
+import { createHash } from "crypto"
+import { S3agleSettings } from "../settings"
+import { incrementFileName } from "../helpers"
+import { getS3Key } from "./s3ObjectUrl"
+import { isEncrypted } from "../encryption/encryption"
+
+// Object metadata key holding the SHA-256 of the file content. Only set on unencrypted objects, where it gives nothing away
+export const CONTENT_HASH_METADATA = "s3agle-sha256"
+
+export type S3CollisionPolicy = "overwrite" | "rename" | "reuse"
+
+export type ResolvedKey = {
+  key: string
+  existing?: HeadObjectCommandOutput // Set when an object with the same content is already at the key
+}
+
+const headObject = async (s3Client: S3Client, bucket: string, key: string): Promise<HeadObjectCommandOutput | null> => {
+  try {
+    return await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+  } catch (error) {
+    if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) return null
+    throw error
+  }
+}
+
+// The file name with the start of the content hash before its extension, like image-3f2a9c1b7d4e.png
+const withContentHash = (fileName: string, hash: string): string => {
+  const dot = fileName.lastIndexOf(".")
+  const suffix = `-${hash.slice(0, 12)}`
+  return dot > 0 ? fileName.slice(0, dot) + suffix + fileName.slice(dot) : fileName + suffix
+}
+
+// Objects uploaded by the plugin carry the content hash. For others the size and, for single part uploads, the MD5 ETag are compared.
+// Encrypted objects never match, their content can't be compared without downloading them
+const hasSameContent = async (head: HeadObjectCommandOutput, file: File, hash: string): Promise<boolean> => {
+  if (isEncrypted(head.Metadata)) return false
+  const storedHash = head.Metadata?.[CONTENT_HASH_METADATA]
+  if (storedHash) return storedHash === hash
+  if (head.ContentLength !== file.size) return false
+
+  const etag = (head.ETag || "").replace(/"/g, "")
+  if (!etag || etag.includes("-")) return false
+  return createHash("md5").update(Buffer.from(await file.arrayBuffer())).digest("hex") === etag
+}
+
+// Find the key to upload a file to. Unless the policy is to overwrite, existing keys are checked with HeadObject
+// and the name is incremented until it is free, or until an object with the same content is found when reusing
+export const resolveKeyCollision = async (
+  s3Client: S3Client,
+  settings: S3agleSettings,
+  folderPath: string,
+  fileName: string,
+  file: File,
+  hash: string,
+): Promise<ResolvedKey> => {
+  let name = fileName
+  for (;;) {
+    const key = getS3Key(folderPath, name)
+    if (settings.s3CollisionPolicy === "overwrite") return { key }
+
+    let head: HeadObjectCommandOutput | null
+    try {
+      head = await headObject(s3Client, settings.bucket, key)
+    } catch (error) {
+      if (error.$metadata?.httpStatusCode !== 403) throw error
+      // Credentials that may only upload can't see existing objects. A key named after the content can only
+      // be taken by the same file, so nothing else is overwritten
+      return { key: getS3Key(folderPath, withContentHash(fileName, hash)) }
+    }
+    if (!head) return { key }
+    // Only reuse plaintext objects, and only while encryption is off, so turning encryption on never links to a plaintext copy
+    const canReuse = settings.s3CollisionPolicy === "reuse" && !settings.s3Encryption
+    if (canReuse && await hasSameContent(head, file, hash)) return { key, existing: head }
+    name = incrementFileName(name)
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3"
+import { StorageBackend, StoredObject } from "../storage/storageBackend"
+import { getDynamicFolderPath } from "../helpers"
+import { createS3Client } from "./createS3Client"
+import { getS3KeyFromUrl, getS3ObjectUrl } from "./s3ObjectUrl"
+import { uploadToS3 } from "./uploadToS3"
+import { downloadS3Object } from "./downloadS3Object"
+import { getPassphrase } from "../encryption/passphrase"
+import { S3agleSettings } from "../settings"
+
+const getKey = (location: string, settings: S3agleSettings): string => {
+  const key = getS3KeyFromUrl(location, settings)
+  if (key === null) throw new Error(`${location} is not in the S3 bucket.`)
+  return key
+}
+
+export const s3Backend: StorageBackend = {
+  id: "s3",
+  name: "S3",
+
+  isEnabled: (settings) => settings.useS3,
+
+  upload: async (file, { app, settings, onProgress }) => {
+    const folderPath = getDynamicFolderPath(settings.s3Folder || "")
+    const passphrase = settings.s3Encryption ? await getPassphrase(app, settings) : undefined
+    return uploadToS3(file, { ...settings, s3Folder: folderPath }, onProgress, passphrase)
+  },
+
+  download: async (location, context) => {
+    const { data } = await downloadS3Object(context.settings.bucket, getKey(location, context.settings), context)
+    return data
+  },
+
+  delete: async (location, { settings }) => {
+    await createS3Client(settings).send(new DeleteObjectCommand({
+      Bucket: settings.bucket,
+      Key: getKey(location, settings),
+    }))
+  },
+
+  exists: async (location, { settings }) => {
+    try {
+      await createS3Client(settings).send(new HeadObjectCommand({
+        Bucket: settings.bucket,
+        Key: getKey(location, settings),
+      }))
+      return true
+    } catch (error) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) return false
+      throw error
+    }
+  },
+
+  list: async ({ settings }, prefix) => {
+    const s3Client = createS3Client(settings)
+    const objects: StoredObject[] = []
+    let ContinuationToken: string | undefined
+
+    do {
+      const response = await s3Client.send(new ListObjectsV2Command({
+        Bucket: settings.bucket,
+        Prefix: prefix || undefined,
+        ContinuationToken,
+      }))
+      for (const object of response.Contents || []) {
+        if (!object.Key || object.Key.endsWith("/")) continue
+        objects.push({
+          location: getS3ObjectUrl(object.Key, settings),
+          name: object.Key.split("/").pop() || object.Key,
+          size: object.Size,
+          lastModified: object.LastModified,
+        })
+      }
+      ContinuationToken = response.IsTruncated ? response.NextContinuationToken : undefined
+    } while (ContinuationToken)
+
+    return objects
+  },
+
+  owns: (location, settings) => getS3KeyFromUrl(location, settings) !== null,
+
+  drawSettings: (containerEl, tab) => tab.drawS3Settings(containerEl),
+}
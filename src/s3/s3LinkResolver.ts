@@ -0,0 +1,51 @@
+import { LinkResolver } from "../render/linkResolvers"
+import { getPresignedUrl } from "./getPresignedUrl"
+import { downloadS3Object } from "./downloadS3Object"
+import { isEncryptedS3Reference, parseS3Reference } from "./s3ObjectUrl"
+
+const MAX_DECRYPTED_URLS = 50 // Each one keeps a whole decrypted file in memory
+
+// Decrypted objects by reference, so a note that is shown again doesn't download and decrypt them again.
+// Kept in the order they were last used, the least recently used one is revoked when the cache is full
+const decryptedUrls = new Map<string, Promise<string>>()
+
+const revokeDecryptedUrl = (url: Promise<string>): void => {
+  url.then((objectUrl) => URL.revokeObjectURL(objectUrl)).catch(() => undefined)
+}
+
+// Free every decrypted file, when the plugin unloads
+export const clearDecryptedUrls = (): void => {
+  decryptedUrls.forEach(revokeDecryptedUrl)
+  decryptedUrls.clear()
+}
+
+// Turns s3agle://bucket/key references into presigned URLs, or blob URLs of the decrypted file for encrypted objects
+export const s3LinkResolver: LinkResolver = {
+  matches: (link) => parseS3Reference(link) !== null,
+  resolve: async (link, context) => {
+    const reference = parseS3Reference(link)
+    if (!reference) throw new Error(`${link} is not an S3 reference.`)
+    if (!isEncryptedS3Reference(link)) return getPresignedUrl(reference.bucket, reference.key, context.settings)
+
+    let url = decryptedUrls.get(link)
+    if (url) {
+      decryptedUrls.delete(link)
+    } else {
+      url = downloadS3Object(reference.bucket, reference.key, context)
+        .then(({ data, contentType }) => URL.createObjectURL(new Blob([data], { type: contentType })))
+      // Failures aren't cached, for example when the passphrase prompt was dismissed
+      const pending = url
+      pending.catch(() => {
+        if (decryptedUrls.get(link) === pending) decryptedUrls.delete(link)
+      })
+    }
+    decryptedUrls.set(link, url)
+
+    for (const [cachedLink, cachedUrl] of decryptedUrls) {
+      if (decryptedUrls.size <= MAX_DECRYPTED_URLS) break
+      revokeDecryptedUrl(cachedUrl)
+      decryptedUrls.delete(cachedLink)
+    }
+    return url
+  },
+}
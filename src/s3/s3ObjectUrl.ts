@@ -0,0 +1,70 @@
+import { S3agleSettings } from "../settings"
+
+const S3_REFERENCE_PREFIX = "s3agle://"
+const ENCRYPTED_MARKER = "?encrypted"
+
+// URL that every object in the bucket starts with, without a trailing slash
+export const getS3BaseUrl = (settings: S3agleSettings): string => {
+  const s3Url = settings.s3Url ? settings.s3Url : "https://s3.amazonaws.com/" // This is the default URL if nothing is entered
+  const contentUrl = (settings.useCustomContentUrl && settings.customContentUrl) ? settings.customContentUrl : s3Url
+  const httpOrHttps = contentUrl.startsWith("http://") ? "http://" : "https://"
+  const strippedContentUrl = contentUrl.replace(httpOrHttps, "")
+
+  // Remove trailing / if exists
+  const filePrefix = strippedContentUrl.endsWith("/") ? strippedContentUrl.slice(0, -1) : strippedContentUrl
+  const fileBucket = settings.bucket.endsWith("/") ? settings.bucket.slice(0, -1) : settings.bucket
+  return settings.useBucketSubdomain ? `${httpOrHttps}${fileBucket}.${filePrefix}` : `${httpOrHttps}${filePrefix}/${fileBucket}`
+}
+
+// Public URL of an object
+export const getS3ObjectUrl = (key: string, settings: S3agleSettings): string => {
+  return escapeFileUrl(`${getS3BaseUrl(settings)}/${key}`)
+}
+
+// Stable s3agle://bucket/key link for private buckets, swapped for a presigned URL when the note is rendered.
+// Encrypted objects are marked so they are fetched and decrypted instead
+export const getS3Reference = (key: string, settings: S3agleSettings, encrypted = false): string => {
+  const reference = escapeFileUrl(`${S3_REFERENCE_PREFIX}${settings.bucket.replace(/\/+$/, "")}/${key}`)
+  return encrypted ? reference + ENCRYPTED_MARKER : reference
+}
+
+export const isEncryptedS3Reference = (reference: string): boolean => {
+  return reference.startsWith(S3_REFERENCE_PREFIX) && reference.endsWith(ENCRYPTED_MARKER)
+}
+
+export const parseS3Reference = (reference: string): { bucket: string, key: string } | null => {
+  if (!reference.startsWith(S3_REFERENCE_PREFIX)) return null
+  const path = reference.slice(S3_REFERENCE_PREFIX.length).split(/[?#]/)[0]
+  const slash = path.indexOf("/")
+  if (slash <= 0 || slash === path.length - 1) return null
+  return { bucket: path.slice(0, slash), key: decodeURIComponent(path.slice(slash + 1)) }
+}
+
+// Object key of a public URL or s3agle:// reference, or null if it is not in the bucket
+export const getS3KeyFromUrl = (url: string, settings: S3agleSettings): string | null => {
+  const reference = parseS3Reference(url)
+  if (reference) {
+    return reference.bucket === settings.bucket.replace(/\/+$/, "") ? reference.key : null
+  }
+
+  const baseUrl = getS3BaseUrl(settings) + "/"
+  const path = url.split(/[?#]/)[0]
+  if (!path.startsWith(baseUrl)) return null
+  return decodeURIComponent(path.slice(baseUrl.length))
+}
+
+// Part of the S3 folder that doesn't change between uploads, everything before the first date variable
+export const getS3FolderPrefix = (settings: S3agleSettings): string => {
+  return (settings.s3Folder || "").split("${")[0].replace(/^\/+/, "")
+}
+
+// Join the S3 folder and file name into an object key
+export const getS3Key = (folderPath: string, fileName: string): string => {
+  const folder = folderPath.replace(/^\/+|\/+$/g, "")
+  return folder ? `${folder}/${fileName}` : fileName
+}
+
+const escapeFileUrl = (fileUrl: string): string => {
+  //turn spaces into %20 and other special characters into their escaped values, get rid of double slashes
+  return fileUrl.replace(/ /g, "%20")
+}
@@ -0,0 +1,59 @@
+import type { S3agleSettings } from "../settings"
+
+// Settings that decide where files are stored in S3 and what their links look like
+export const S3_PROFILE_FIELDS = [
+  "s3Url",
+  "accessKey",
+  "secretKey",
+  "s3Region",
+  "bucket",
+  "forcePathStyle",
+  "useBucketSubdomain",
+  "useCustomContentUrl",
+  "customContentUrl",
+  "s3PrivateLinks",
+] as const
+
+export type S3Profile = Pick<S3agleSettings, typeof S3_PROFILE_FIELDS[number]> & {
+  name: string
+}
+
+export const createS3Profile = (name: string, settings: S3agleSettings): S3Profile => {
+  const profile = { name } as S3Profile
+  for (const field of S3_PROFILE_FIELDS) {
+    Object.assign(profile, { [field]: settings[field] })
+  }
+  return profile
+}
+
+// Settings with the bucket and endpoint of a profile swapped in
+export const applyS3Profile = (settings: S3agleSettings, profile: S3Profile): S3agleSettings => {
+  const fields: Partial<S3Profile> = { ...profile }
+  delete fields.name
+  return { ...settings, ...fields }
+}
+
+// Settings that can read a bucket: the current ones, or those of the saved profile for that bucket.
+// References keep working after the settings, or a note's S3agleS3Profile, switched to another bucket
+export const getS3SettingsForBucket = (settings: S3agleSettings, bucket: string): S3agleSettings => {
+  if (settings.bucket === bucket) return settings
+  const profile = settings.s3Profiles.find((saved) => saved.bucket === bucket)
+  return profile ? applyS3Profile(settings, profile) : settings
+}
+
+// The settings and those of every saved profile, once for each distinct set of links, to find what a link was written with
+export const getS3LinkSettings = (settings: S3agleSettings): S3agleSettings[] => {
+  const linkSettings = [settings]
+  for (const profile of settings.s3Profiles) {
+    const profileSettings = applyS3Profile(settings, profile)
+    if (!linkSettings.some((known) => haveSameS3Links(known, profileSettings))) linkSettings.push(profileSettings)
+  }
+  return linkSettings
+}
+
+// Whether two sets of settings produce the same links
+export const haveSameS3Links = (a: S3Profile | S3agleSettings, b: S3Profile | S3agleSettings): boolean => {
+  return S3_PROFILE_FIELDS
+    .filter((field) => field !== "accessKey" && field !== "secretKey")
+    .every((field) => a[field] === b[field])
+}
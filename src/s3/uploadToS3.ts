@@ -1,57 +1,221 @@
 import { S3agleSettings } from "../settings";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { getDynamicFolderPath, hashFile } from "../helpers";
+import {
+  S3Client,
+  PutObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListMultipartUploadsCommand,
+  CompletedPart,
+} from "@aws-sdk/client-s3";
+import { getDynamicFolderPath, hashBlob, hashFile } from "../helpers";
+import { createS3Client } from "./createS3Client";
+import { getS3FolderPrefix, getS3ObjectUrl, getS3Reference } from "./s3ObjectUrl";
+import { CONTENT_HASH_METADATA, resolveKeyCollision } from "./resolveKeyCollision";
+import { ENCRYPTED_CONTENT_TYPE, encryptFile } from "../encryption/encryption";
 
-export const uploadToS3 = async (file: File, settings: S3agleSettings): Promise<string> => {
-  if (!settings.s3Url) {
-    throw new Error("S3 URL is missing in the settings.");
-  }
+const MB = 1024 * 1024
+const MIN_PART_SIZE = 5 * MB // S3 rejects smaller parts, except for the last one
+
+// Multipart uploads started by this session, these are never treated as orphaned
+const activeMultipartUploads = new Set<string>()
 
-  const s3Client = new S3Client({
-    region: settings.s3Region || undefined,  // Optional if the custom endpoint doesn't need it
-    credentials: {
-      accessKeyId: settings.accessKey,
-      secretAccessKey: settings.secretKey,
-    },
-    endpoint: settings.s3Url.startsWith("http")
-      ? settings.s3Url
-      : `https://${settings.s3Url}`,  // Always use the s3Url from settings
-  })
+// What is actually sent to S3, which differs from the file when it is encrypted
+type S3Object = {
+  body: Blob
+  contentType: string
+  metadata?: Record<string, string>
+}
+
+// passphrase is only needed when encryption is turned on
+export const uploadToS3 = async (
+  file: File,
+  settings: S3agleSettings,
+  onProgress?: (fraction: number) => void,
+  passphrase?: string,
+): Promise<string> => {
+  const s3Client = createS3Client(settings)
   const fileName = settings.hashFileName ? await hashFile(file, settings.hashSeed) : file.name
   const folderPath = getDynamicFolderPath(settings.s3Folder || "")
-  const key = `${folderPath}/${fileName}`
-  const buffer = await file.arrayBuffer()
+  const hash = await hashBlob(file)
+
+  let key: string
+  try {
+    const resolved = await resolveKeyCollision(s3Client, settings, folderPath, fileName, file, hash)
+    // The same content is already there, so link to it instead of uploading it again
+    if (resolved.existing) {
+      onProgress?.(1)
+      return getS3Link(resolved.key, settings, false)
+    }
+    key = resolved.key
+  } catch (error) {
+    throw new Error(`Error checking for existing S3 objects: ${error.message}`)
+  }
+
+  let object: S3Object = { body: file, contentType: file.type, metadata: { [CONTENT_HASH_METADATA]: hash } }
+  if (settings.s3Encryption) {
+    if (!passphrase) throw new Error("Error uploading to S3: no encryption passphrase.")
+    const { data, metadata } = await encryptFile(file, passphrase, settings.encryptionSalt)
+    // The plaintext hash would let anyone with access to the bucket confirm what the file contains
+    object = { body: new Blob([data]), contentType: ENCRYPTED_CONTENT_TYPE, metadata }
+  }
 
   try {
     // This is where we upload the file to S3
-    await s3Client.send(new PutObjectCommand({
+    if (object.body.size > settings.multipartThreshold * MB) {
+      await uploadMultipart(s3Client, object, key, settings, onProgress)
+    } else {
+      await s3Client.send(new PutObjectCommand({
+        Bucket: settings.bucket,
+        Key: key,
+        Body: new Uint8Array(await object.body.arrayBuffer()),
+        ContentType: object.contentType,
+        Metadata: object.metadata,
+      }))
+      onProgress?.(1)
+    }
+  } catch (error) {
+    throw new Error(`Error uploading to S3: ${error.message}`)
+  }
+
+  return getS3Link(key, settings, settings.s3Encryption)
+}
+
+// Return the correct file URL for preview, private buckets and encrypted files get a reference that is resolved when the note renders
+const getS3Link = (key: string, settings: S3agleSettings, encrypted: boolean): string => {
+  if (encrypted) return getS3Reference(key, settings, true)
+  return settings.s3PrivateLinks ? getS3Reference(key, settings) : getS3ObjectUrl(key, settings)
+}
+
+// Upload a large file in parts, reading one slice of the file at a time
+const uploadMultipart = async (
+  s3Client: S3Client,
+  object: S3Object,
+  key: string,
+  settings: S3agleSettings,
+  onProgress?: (fraction: number) => void,
+): Promise<void> => {
+  const file = object.body
+  const partSize = Math.max(settings.multipartPartSize * MB, MIN_PART_SIZE)
+  const partCount = Math.ceil(file.size / partSize)
+
+  const { UploadId } = await s3Client.send(new CreateMultipartUploadCommand({
+    Bucket: settings.bucket,
+    Key: key,
+    ContentType: object.contentType,
+    Metadata: object.metadata,
+  }))
+  if (!UploadId) throw new Error("S3 did not return a multipart upload ID.")
+  activeMultipartUploads.add(UploadId)
+
+  const parts: CompletedPart[] = []
+  let uploadedBytes = 0
+  let nextPart = 1
+
+  // Each worker takes the next part number until there are none left
+  const uploadParts = async () => {
+    while (nextPart <= partCount) {
+      const partNumber = nextPart++
+      const start = (partNumber - 1) * partSize
+      const body = file.slice(start, Math.min(start + partSize, file.size))
+      const ETag = await withRetries(settings.multipartPartRetries, async () => {
+        const response = await s3Client.send(new UploadPartCommand({
+          Bucket: settings.bucket,
+          Key: key,
+          UploadId,
+          PartNumber: partNumber,
+          Body: new Uint8Array(await body.arrayBuffer()),
+        }))
+        if (!response.ETag) throw new Error(`S3 did not return an ETag for part ${partNumber}.`)
+        return response.ETag
+      })
+      parts.push({ ETag, PartNumber: partNumber })
+      uploadedBytes += body.size
+      onProgress?.(uploadedBytes / file.size)
+    }
+  }
+
+  try {
+    const workers = Math.max(1, Math.min(settings.multipartConcurrency, partCount))
+    await Promise.all(Array.from({ length: workers }, uploadParts))
+
+    await s3Client.send(new CompleteMultipartUploadCommand({
       Bucket: settings.bucket,
       Key: key,
-      Body: new Uint8Array(buffer),
-      ContentType: file.type,
+      UploadId,
+      MultipartUpload: { Parts: parts.sort((a, b) => (a.PartNumber || 0) - (b.PartNumber || 0)) },
     }))
   } catch (error) {
-    throw new Error(`Error uploading to S3: ${error.message}`)
+    // Don't leave the uploaded parts behind, they are billed until the upload is aborted
+    nextPart = partCount + 1
+    await s3Client.send(new AbortMultipartUploadCommand({ Bucket: settings.bucket, Key: key, UploadId }))
+      .catch((abortError) => console.error("Failed to abort multipart upload:", abortError))
+    throw error
+  } finally {
+    activeMultipartUploads.delete(UploadId)
+  }
+}
+
+const withRetries = async <T>(retries: number, action: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await action()
+    } catch (error) {
+      if (attempt >= retries) throw error
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt))
+    }
   }
+}
 
-  // Generate the correct URL based on the contentUrl and ensure the folder path is included
-  const s3Url = settings.s3Url ? settings.s3Url : "https://s3.amazonaws.com/" // This is the default URL if nothing is entered
-  const contentUrl = (settings.useCustomContentUrl && settings.customContentUrl) ? settings.customContentUrl : s3Url
-  const httpOrHttps = contentUrl.startsWith("http://") ? "http://" : "https://"
-  const strippedContentUrl = contentUrl.replace(httpOrHttps, "")
-  const path = settings.s3Folder ? `${settings.s3Folder}` : ""
+const ORPHANED_UPLOAD_AGE = 24 * 60 * 60 * 1000 // Younger uploads may still be running in another window or on another device
+
+export type UnfinishedMultipartUpload = {
+  key: string
+  uploadId: string
+  initiated: Date
+}
 
-  // Remove trailing / if exists
-  const filePrefix = strippedContentUrl.endsWith("/") ? strippedContentUrl.slice(0, -1) : strippedContentUrl
-  const fileBucket = settings.bucket.endsWith("/") ? settings.bucket.slice(0, -1) : settings.bucket
-  const fileFolderPath = path.endsWith("/") ? path.slice(0, -1) : path
-  const fileUrl = settings.useBucketSubdomain ? `${httpOrHttps}${fileBucket}.${filePrefix}/${fileFolderPath}/${fileName}` : `${httpOrHttps}${filePrefix}/${fileBucket}/${fileFolderPath}/${fileName}`
-  const escapedFileUrl = escapeFileUrl(fileUrl)
+// Multipart uploads under the S3 folder that were started over a day ago and never finished, for example when Obsidian was closed mid-upload
+export const listOrphanedMultipartUploads = async (settings: S3agleSettings): Promise<UnfinishedMultipartUpload[]> => {
+  const s3Client = createS3Client(settings)
+  const prefix = getS3FolderPrefix(settings)
+  const startedBefore = Date.now() - ORPHANED_UPLOAD_AGE
+  const orphans: UnfinishedMultipartUpload[] = []
+  let KeyMarker: string | undefined
+  let UploadIdMarker: string | undefined
 
-  return escapedFileUrl;  // Return the correct file URL for preview
+  do {
+    const response = await s3Client.send(new ListMultipartUploadsCommand({
+      Bucket: settings.bucket,
+      Prefix: prefix || undefined,
+      KeyMarker,
+      UploadIdMarker,
+    }))
+    for (const upload of response.Uploads || []) {
+      if (!upload.Key || !upload.UploadId || activeMultipartUploads.has(upload.UploadId)) continue
+      // Without a start time there is no telling whether it is still running
+      if (!upload.Initiated || upload.Initiated.getTime() > startedBefore) continue
+      orphans.push({ key: upload.Key, uploadId: upload.UploadId, initiated: upload.Initiated })
+    }
+    KeyMarker = response.IsTruncated ? response.NextKeyMarker : undefined
+    UploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined
+  } while (KeyMarker)
+
+  return orphans
 }
 
-const escapeFileUrl = (fileUrl: string): string => {
-  //turn spaces into %20 and other special characters into their escaped values, get rid of double slashes
-  return fileUrl.replace(/ /g, "%20")
+// Abort the given multipart uploads, returning how many were aborted. Failures are logged and the rest still aborted
+export const abortS3MultipartUploads = async (uploads: UnfinishedMultipartUpload[], settings: S3agleSettings): Promise<number> => {
+  const s3Client = createS3Client(settings)
+  let aborted = 0
+  for (const upload of uploads) {
+    try {
+      await s3Client.send(new AbortMultipartUploadCommand({ Bucket: settings.bucket, Key: upload.key, UploadId: upload.uploadId }))
+      aborted++
+    } catch (error) {
+      console.error("Failed to abort multipart upload:", upload.key, error)
+    }
+  }
+  return aborted
 }
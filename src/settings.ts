@@ -7,6 +7,18 @@ import {
   getNoteContent,
 } from "./helpers"
 import S3aglePlugin from "./main"
+import { getStorageBackends } from "./storage/storageBackend"
+import { S3Profile, applyS3Profile, createS3Profile, haveSameS3Links } from "./s3/s3Profiles"
+import { DEFAULT_IMAGE_RULE, ImageRule } from "./image/optimizeImage"
+import { DEFAULT_FOLDER_RULE, FolderRule } from "./folderRules"
+import { getFolderRuleOverrides } from "./noteSettings"
+import { createPassphraseCheck, createSalt } from "./encryption/encryption"
+import { forgetPassphrase, rememberPassphrase } from "./encryption/passphrase"
+import { S3CollisionPolicy } from "./s3/resolveKeyCollision"
+import { EaglePathMapping } from "./eagle/eaglePathMapping"
+import { getActiveEagleLibrary, getEagleLibraryName, getRecentEagleLibraries } from "./eagle/eagleLibrary"
+
+export type EmbedStyle = "embed" | "link"
 
 export const HANDLED_FILE_TYPES = [".ppt", ".jpg", ".jpeg", ".png", ".gif", ".webp", ".svg", ".mp4", ".webm", ".ogg", ".mp3", ".wav", ".flac", ".pdf"]
 
@@ -21,9 +33,13 @@ export interface S3agleSettings {
   s3Region: string // AWS Region where the S3 bucket is located
   bucket: string // The name of the S3 bucket to use
   s3Folder: string // Default folder path within the S3 bucket
-  eagleFolder: string // Default folder path within Eagle
+  eagleFolder: string // Folder path template within Eagle
   eagleApiUrl: string // URL to the Eagle API, usually localhost
+  eagleApiToken: string // Sent with every Eagle request, for Eagle builds that require one
+  eaglePathMappings: EaglePathMapping[] // Local folders and where the computer running Eagle finds them
   uploadOnDrag: boolean // Enable uploading files on drag-and-drop
+  askOnPaste: boolean // Ask whether to upload pasted and dropped files or keep them in the vault
+  embedStyle: EmbedStyle // Embed uploaded files in the note, or only link to them
   useEagle: boolean // Enable integration with Eagle software
   useS3: boolean // Enable integration with  S3
   useBucketSubdomain: boolean // Use bucket subdomain
@@ -43,6 +59,32 @@ export interface S3agleSettings {
   hashSeed: number // Seed for hashing the file name
   useGoogleDocsViewer: boolean // Use Google Docs Viewer for PDFs
   useMicrosoftOfficeViewer: boolean // Use Microsoft Office Viewer for PDFs
+  uploadRetryLimit: number // Attempts before a queued upload is marked as failed
+  uploadRetryDelay: number // Seconds before the first retry, doubled after each failure
+  multipartThreshold: number // Files larger than this many MB are uploaded to S3 in parts
+  multipartPartSize: number // Size of each multipart part in MB
+  multipartConcurrency: number // Number of parts uploaded at the same time
+  multipartPartRetries: number // Retries for a single part before the upload fails
+  backendOrder: string[] // Storage backend IDs in the order files are uploaded to them
+  primaryBackend: string // Storage backend whose location is linked in the note, empty for the first one that succeeded
+  s3PrivateLinks: boolean // Write s3agle:// references that are presigned at render time instead of public URLs
+  presignedUrlExpiry: number // Seconds a presigned URL stays valid
+  s3TrashPrefix: string // Prefix orphaned objects are moved under instead of being deleted
+  s3Profiles: S3Profile[] // Saved buckets and endpoints, used to migrate between them
+  imageRules: ImageRule[] // Image transforms applied before upload, the first rule that matches a file is used
+  folderRules: FolderRule[] // Settings for notes in vault folders, the first rule that matches a note is used
+  s3Encryption: boolean // Encrypt files before they are uploaded to S3
+  encryptionSalt: string // Salt the encryption key is derived with, not secret
+  encryptionCheck: string // Known text encrypted with the passphrase, used to catch a mistyped passphrase
+  s3CollisionPolicy: S3CollisionPolicy // What to do when an object with the same key is already in the bucket
+  eagleTagsTemplate: string // Comma separated tags for new Eagle items, with note variables
+  eagleAnnotationTemplate: string // Annotation for new Eagle items, with note variables
+  eagleWebsiteTemplate: string // Website for new Eagle items, with note variables
+  eagleSyncOnSave: boolean // Push note tags and alt text to the linked Eagle items when a note changes
+  eagleSyncCallouts: boolean // Write Eagle tags and annotations back into the note when syncing
+  eagleTrashOnNoteDelete: boolean // Offer to trash the Eagle items of a deleted note that no other note links to
+  eagleLibrary: string // Library new files are imported into, by path or name. Empty for whichever library is open. Folder rules and notes can override it
+  eagleSwitchLibrary: boolean // Switch Eagle to the target library instead of failing the import
 }
 
 /**
@@ -59,7 +101,11 @@ export const DEFAULT_SETTINGS: S3agleSettings = {
   s3Url: "s3.amazonaws.com",
   useBucketSubdomain: false,
   eagleApiUrl: "http://localhost:41595/",
+  eagleApiToken: "",
+  eaglePathMappings: [],
   uploadOnDrag: true,
+  askOnPaste: false,
+  embedStyle: "embed",
   useEagle: true,
   useS3: true,
   useVault: false,
@@ -77,19 +123,64 @@ export const DEFAULT_SETTINGS: S3agleSettings = {
   hashSeed: randomInt(1000000),
   useGoogleDocsViewer: true,
   useMicrosoftOfficeViewer: true,
+  uploadRetryLimit: 5,
+  uploadRetryDelay: 10,
+  multipartThreshold: 16,
+  multipartPartSize: 8,
+  multipartConcurrency: 4,
+  multipartPartRetries: 3,
+  backendOrder: ["s3", "vault", "eagle"],
+  primaryBackend: "",
+  s3PrivateLinks: false,
+  presignedUrlExpiry: 3600,
+  s3TrashPrefix: "trash",
+  s3Profiles: [],
+  imageRules: [],
+  folderRules: [],
+  s3Encryption: false,
+  encryptionSalt: "",
+  encryptionCheck: "",
+  s3CollisionPolicy: "reuse",
+  eagleTagsTemplate: "Obsidian, ${tags}",
+  eagleAnnotationTemplate: "Uploaded from Obsidian: ${noteTitle}\n\n${paragraph}",
+  eagleWebsiteTemplate: "${noteLink}",
+  eagleSyncOnSave: false,
+  eagleSyncCallouts: true,
+  eagleTrashOnNoteDelete: false,
+  eagleLibrary: "",
+  eagleSwitchLibrary: true,
 }
 
 export class S3agleSettingTab extends PluginSettingTab {
   plugin: S3aglePlugin
+  private linksBeforeEdit: S3Profile | null = null
 
   display() {
     const { containerEl } = this
     containerEl.empty()
+    // Remember how links looked when the tab was opened, display() also runs on every redraw
+    this.linksBeforeEdit = this.linksBeforeEdit || createS3Profile("", this.plugin.settings)
 
     this.drawGeneralSettings(containerEl)
-    this.drawVaultSettings(containerEl)
-    this.drawS3Settings(containerEl)
-    this.drawEagleSettings(containerEl)
+    this.drawImageSettings(containerEl)
+    this.drawStorageOrderSettings(containerEl)
+    this.drawFolderRuleSettings(containerEl)
+    for (const backend of getStorageBackends(this.plugin.settings)) {
+      backend.drawSettings?.(containerEl, this)
+    }
+  }
+
+  // Keep the old bucket and endpoint as a profile when they changed, so existing links can still be migrated
+  async hide() {
+    super.hide()
+    const before = this.linksBeforeEdit
+    this.linksBeforeEdit = null
+    if (!before || haveSameS3Links(before, this.plugin.settings)) return
+
+    before.name = `Previous (${new Date().toLocaleString()})`
+    this.plugin.settings.s3Profiles.push(before)
+    await this.plugin.saveSettings()
+    new Notice(`S3agle: S3 links changed. The old settings were saved as the "${before.name}" bucket profile, use the migrate command to update existing links.`, 10000)
   }
 
   drawGeneralSettings(containerEl: HTMLElement) {
@@ -106,6 +197,32 @@ export class S3agleSettingTab extends PluginSettingTab {
           }),
       )
 
+    new Setting(containerEl)
+      .setName("Ask before uploading")
+      .setDesc("Ask whether to upload pasted and dropped files, or only save them in the vault.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.askOnPaste)
+          .onChange(async (value) => {
+            this.plugin.settings.askOnPaste = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Embed style")
+      .setDesc("Embed uploaded files in the note, with previews and players, or only link to them.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("embed", "Embed")
+          .addOption("link", "Link")
+          .setValue(this.plugin.settings.embedStyle)
+          .onChange(async (value: EmbedStyle) => {
+            this.plugin.settings.embedStyle = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
     new Setting(containerEl)
       .setName("Hash file names")
       .setDesc("Hash the file name before uploading. This hides the original file name as well as deduplicates files.")
@@ -135,6 +252,34 @@ export class S3agleSettingTab extends PluginSettingTab {
         )
     }
 
+    new Setting(containerEl)
+      .setName("Upload retry limit")
+      .setDesc("How many times a pasted file is tried before the upload is marked as failed.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.uploadRetryLimit))
+          .onChange(async (value) => {
+            const limit = parseInt(value, 10)
+            if (isNaN(limit) || limit < 1) return
+            this.plugin.settings.uploadRetryLimit = limit
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Upload retry delay")
+      .setDesc("Seconds to wait before retrying a failed upload. The delay doubles after each failed attempt.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.uploadRetryDelay))
+          .onChange(async (value) => {
+            const delay = parseInt(value, 10)
+            if (isNaN(delay) || delay < 1) return
+            this.plugin.settings.uploadRetryDelay = delay
+            await this.plugin.saveSettings()
+          }),
+      )
+
     // new Setting(containerEl)
     //   .setName("Bypass CORS restrictions")
     //   .setDesc(
@@ -164,6 +309,268 @@ export class S3agleSettingTab extends PluginSettingTab {
     //   )
   }
 
+  drawImageSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Image optimization")
+      .setDesc("Resize and re-encode images before they are uploaded. The first rule that matches the type and size of an image is used, images that match no rule are uploaded as they are.")
+      .setHeading()
+      .addExtraButton((button) =>
+        button
+          .setIcon("plus")
+          .setTooltip("Add rule")
+          .onClick(async () => {
+            this.plugin.settings.imageRules.push({ ...DEFAULT_IMAGE_RULE })
+            await this.plugin.saveSettings()
+            this.display()
+          }),
+      )
+
+    this.plugin.settings.imageRules.forEach((rule, index) => this.drawImageRule(containerEl, rule, index))
+  }
+
+  drawImageRule(containerEl: HTMLElement, rule: ImageRule, index: number) {
+    const rules = this.plugin.settings.imageRules
+    const save = async (changes: Partial<ImageRule>) => {
+      Object.assign(rule, changes)
+      await this.plugin.saveSettings()
+    }
+
+    new Setting(containerEl)
+      .setName(`Rule ${index + 1}`)
+      .setDesc("MIME types, comma separated. Use image/* for every image. GIF and SVG files are never changed.")
+      .addText((text) =>
+        text
+          .setPlaceholder("image/png, image/jpeg")
+          .setValue(rule.mimeTypes)
+          .onChange((value) => save({ mimeTypes: value })),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .setDisabled(index === 0)
+          .onClick(() => this.moveImageRule(index, index - 1)),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-down")
+          .setTooltip("Move down")
+          .setDisabled(index === rules.length - 1)
+          .onClick(() => this.moveImageRule(index, index + 1)),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Delete rule")
+          .onClick(async () => {
+            rules.splice(index, 1)
+            await this.plugin.saveSettings()
+            this.display()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Minimum size")
+      .setDesc("Only apply this rule to images of at least this many KB.")
+      .setClass("s3agle-nested-setting")
+      .addText((text) =>
+        text.setValue(String(rule.minSize)).onChange(async (value) => {
+          const size = parseInt(value, 10)
+          if (isNaN(size) || size < 0) return
+          await save({ minSize: size })
+        }),
+      )
+
+    new Setting(containerEl)
+      .setName("Maximum dimension")
+      .setDesc("Scale images down so their longest side is at most this many pixels. 0 keeps the original size.")
+      .setClass("s3agle-nested-setting")
+      .addText((text) =>
+        text.setValue(String(rule.maxDimension)).onChange(async (value) => {
+          const dimension = parseInt(value, 10)
+          if (isNaN(dimension) || dimension < 0) return
+          await save({ maxDimension: dimension })
+        }),
+      )
+
+    new Setting(containerEl)
+      .setName("Convert to")
+      .setClass("s3agle-nested-setting")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("", "Keep format")
+          .addOption("image/webp", "WebP")
+          .addOption("image/avif", "AVIF")
+          .addOption("image/jpeg", "JPEG")
+          .setValue(rule.format)
+          .onChange((value) => save({ format: value })),
+      )
+
+    new Setting(containerEl)
+      .setName("Quality")
+      .setDesc("Used for JPEG, WebP and AVIF.")
+      .setClass("s3agle-nested-setting")
+      .addSlider((slider) =>
+        slider
+          .setLimits(10, 100, 5)
+          .setValue(rule.quality)
+          .setDynamicTooltip()
+          .onChange((value) => save({ quality: value })),
+      )
+
+    new Setting(containerEl)
+      .setName("Strip metadata")
+      .setDesc("Re-encode matching images even when nothing else changes, which removes EXIF data such as GPS location.")
+      .setClass("s3agle-nested-setting")
+      .addToggle((toggle) => toggle.setValue(rule.stripMetadata).onChange((value) => save({ stripMetadata: value })))
+  }
+
+  async moveImageRule(from: number, to: number) {
+    const rules = this.plugin.settings.imageRules
+    const [moved] = rules.splice(from, 1)
+    rules.splice(to, 0, moved)
+    await this.plugin.saveSettings()
+    this.display()
+  }
+
+  drawFolderRuleSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Folder rules")
+      .setDesc("Change the settings for the notes in some folders, with the same properties notes can set in their frontmatter. The first rule that matches a note is used, and the note's own frontmatter wins over the rule.")
+      .setHeading()
+      .addExtraButton((button) =>
+        button
+          .setIcon("plus")
+          .setTooltip("Add rule")
+          .onClick(async () => {
+            this.plugin.settings.folderRules.push({ ...DEFAULT_FOLDER_RULE })
+            await this.plugin.saveSettings()
+            this.display()
+          }),
+      )
+
+    this.plugin.settings.folderRules.forEach((rule, index) => this.drawFolderRule(containerEl, rule, index))
+  }
+
+  drawFolderRule(containerEl: HTMLElement, rule: FolderRule, index: number) {
+    const rules = this.plugin.settings.folderRules
+    const save = async (changes: Partial<FolderRule>) => {
+      Object.assign(rule, changes)
+      await this.plugin.saveSettings()
+    }
+
+    new Setting(containerEl)
+      .setName(`Rule ${index + 1}`)
+      .setDesc("Vault folders or path globs, comma separated. ** matches any number of folders, * and ? match within one.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Journal, Publish/**/*.md")
+          .setValue(rule.folders)
+          .onChange((value) => save({ folders: value })),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-up")
+          .setTooltip("Move up")
+          .setDisabled(index === 0)
+          .onClick(() => this.moveFolderRule(index, index - 1)),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("arrow-down")
+          .setTooltip("Move down")
+          .setDisabled(index === rules.length - 1)
+          .onClick(() => this.moveFolderRule(index, index + 1)),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Delete rule")
+          .onClick(async () => {
+            rules.splice(index, 1)
+            await this.plugin.saveSettings()
+            this.display()
+          }),
+      )
+
+    const description = "One property per line, like S3agleLocalOnly: true or S3agleS3Profile: Public."
+    const properties = new Setting(containerEl)
+      .setName("Settings")
+      .setDesc(description)
+      .setClass("s3agle-nested-setting")
+    // Show what is wrong with the properties while they are typed, they are saved either way
+    const check = () => {
+      const { errors } = getFolderRuleOverrides(rule, this.plugin.settings)
+      properties.setDesc(errors.length ? `${description} ${errors.join(". ")}.` : description)
+    }
+    properties.addTextArea((text) =>
+      text
+        .setPlaceholder("S3agleDestinations: [vault]")
+        .setValue(rule.properties)
+        .onChange(async (value) => {
+          await save({ properties: value })
+          check()
+        }),
+    )
+    check()
+  }
+
+  async moveFolderRule(from: number, to: number) {
+    const rules = this.plugin.settings.folderRules
+    const [moved] = rules.splice(from, 1)
+    rules.splice(to, 0, moved)
+    await this.plugin.saveSettings()
+    this.display()
+  }
+
+  drawStorageOrderSettings(containerEl: HTMLElement) {
+    new Setting(containerEl).setName("Storage order").setHeading()
+
+    const backends = getStorageBackends(this.plugin.settings)
+    backends.forEach((backend, index) => {
+      new Setting(containerEl)
+        .setName(backend.name)
+        .setDesc(backend.isEnabled(this.plugin.settings) ? "Enabled" : "Disabled")
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(() => this.moveBackend(index, index - 1)),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === backends.length - 1)
+            .onClick(() => this.moveBackend(index, index + 1)),
+        )
+    })
+
+    new Setting(containerEl)
+      .setName("Primary link")
+      .setDesc("The storage whose link is put in the note. If it fails or is disabled, the first storage in the order above that succeeded is used.")
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "First in order")
+        backends.forEach((backend) => dropdown.addOption(backend.id, backend.name))
+        dropdown
+          .setValue(this.plugin.settings.primaryBackend)
+          .onChange(async (value) => {
+            this.plugin.settings.primaryBackend = value
+            await this.plugin.saveSettings()
+          })
+      })
+  }
+
+  async moveBackend(from: number, to: number) {
+    const order = getStorageBackends(this.plugin.settings).map((backend) => backend.id)
+    const [moved] = order.splice(from, 1)
+    order.splice(to, 0, moved)
+    this.plugin.settings.backendOrder = order
+    await this.plugin.saveSettings()
+    this.display()
+  }
+
   drawVaultSettings(containerEl: HTMLElement) {
     new Setting(containerEl).setName("Vault").setHeading()
 
@@ -268,6 +675,31 @@ export class S3agleSettingTab extends PluginSettingTab {
         }),
       )
 
+    new Setting(containerEl)
+      .setName("When a file name is taken")
+      .setDesc("What to do when the bucket already has an object with the same name in the same folder.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("reuse", "Link to it if identical, else rename")
+          .addOption("rename", "Always rename")
+          .addOption("overwrite", "Overwrite")
+          .setValue(this.plugin.settings.s3CollisionPolicy)
+          .onChange(async (value: S3CollisionPolicy) => {
+            this.plugin.settings.s3CollisionPolicy = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("S3 trash folder")
+      .setDesc("Orphaned files can be moved under this prefix instead of being deleted. Leave empty to only allow deleting.")
+      .addText((text) =>
+        text.setValue(this.plugin.settings.s3TrashPrefix).onChange(async (value) => {
+          this.plugin.settings.s3TrashPrefix = value.trim()
+          await this.plugin.saveSettings()
+        }),
+      )
+
     new Setting(containerEl)
       .setName("S3 endpoint")
       .setDesc("Enter the S3 endpoint URL. Will default to Amazon's S3.")
@@ -293,6 +725,40 @@ export class S3agleSettingTab extends PluginSettingTab {
           }),
       )
 
+    new Setting(containerEl)
+      .setName("Private bucket links")
+      .setDesc(
+        "Write s3agle://bucket/key links instead of public URLs. They are swapped for short-lived presigned URLs when the note is shown, so the bucket doesn't need to be public.",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.s3PrivateLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.s3PrivateLinks = value
+            await this.plugin.saveSettings()
+            this.display() // Redraw to show/hide the expiry setting
+          }),
+      )
+
+    if (this.plugin.settings.s3PrivateLinks) {
+      new Setting(containerEl)
+        .setName("Presigned URL expiry")
+        .setDesc("Seconds a presigned URL stays valid. Notes that stay open longer than this need to be reopened.")
+        .addText((text) =>
+          text
+            .setValue(String(this.plugin.settings.presignedUrlExpiry))
+            .onChange(async (value) => {
+              const expiry = parseInt(value, 10)
+              // S3 caps presigned URLs at 7 days
+              if (isNaN(expiry) || expiry < 60 || expiry > 604800) return
+              this.plugin.settings.presignedUrlExpiry = expiry
+              await this.plugin.saveSettings()
+            }),
+        )
+    }
+
+    this.drawS3EncryptionSettings(containerEl)
+
     new Setting(containerEl)
       .setName("Use custom content URL")
       .setDesc(
@@ -326,6 +792,62 @@ export class S3agleSettingTab extends PluginSettingTab {
         )
     }
 
+    new Setting(containerEl)
+      .setName("Multipart upload threshold")
+      .setDesc("Files larger than this many MB are uploaded in parts.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.multipartThreshold))
+          .onChange(async (value) => {
+            const threshold = parseInt(value, 10)
+            if (isNaN(threshold) || threshold < 5) return
+            this.plugin.settings.multipartThreshold = threshold
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Multipart part size")
+      .setDesc("Size of each part in MB. S3 requires at least 5 MB.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.multipartPartSize))
+          .onChange(async (value) => {
+            const partSize = parseInt(value, 10)
+            if (isNaN(partSize) || partSize < 5) return
+            this.plugin.settings.multipartPartSize = partSize
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Parallel parts")
+      .setDesc("How many parts of a multipart upload are sent at the same time.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.multipartConcurrency))
+          .onChange(async (value) => {
+            const concurrency = parseInt(value, 10)
+            if (isNaN(concurrency) || concurrency < 1) return
+            this.plugin.settings.multipartConcurrency = concurrency
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Part retries")
+      .setDesc("How many times a single part is retried before the whole upload fails.")
+      .addText((text) =>
+        text
+          .setValue(String(this.plugin.settings.multipartPartRetries))
+          .onChange(async (value) => {
+            const retries = parseInt(value, 10)
+            if (isNaN(retries) || retries < 0) return
+            this.plugin.settings.multipartPartRetries = retries
+            await this.plugin.saveSettings()
+          }),
+      )
+
     new Setting(containerEl)
       .setName("Use Google docs viewer for PDF file embeddings")
       .setDesc(
@@ -353,6 +875,124 @@ export class S3agleSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings()
           }),
       )
+
+    this.drawS3ProfileSettings(containerEl)
+  }
+
+  drawS3EncryptionSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Encrypt uploads")
+      .setDesc("Encrypt files with AES-GCM before they are uploaded, using a key derived from a passphrase. Encrypted files are decrypted when the note is shown, so links to them only work in Obsidian.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.s3Encryption)
+          .onChange(async (value) => {
+            this.plugin.settings.s3Encryption = value
+            await this.plugin.saveSettings()
+            this.display() // Redraw to show/hide the passphrase settings
+          }),
+      )
+
+    if (!this.plugin.settings.s3Encryption) return
+
+    if (this.plugin.settings.encryptionCheck) {
+      new Setting(containerEl)
+        .setName("Encryption passphrase")
+        .setDesc("The passphrase is never saved in the plugin data. Forget it to be asked again on this device. Resetting it means files that are already encrypted can only be read with the old passphrase.")
+        .addButton((button) =>
+          button.setButtonText("Forget on this device").onClick(() => {
+            forgetPassphrase(this.app)
+            new Notice("S3agle: Passphrase forgotten on this device.")
+          }),
+        )
+        .addButton((button) =>
+          button
+            .setButtonText("Reset")
+            .setWarning()
+            .onClick(async () => {
+              forgetPassphrase(this.app)
+              this.plugin.settings.encryptionCheck = ""
+              await this.plugin.saveSettings()
+              this.display()
+            }),
+        )
+      return
+    }
+
+    let passphrase = ""
+    let confirmation = ""
+    new Setting(containerEl)
+      .setName("Set encryption passphrase")
+      .setDesc("Needed on every device that shows or downloads encrypted files. There is no way to recover files if it is lost.")
+      .addText((text) => {
+        text.inputEl.type = "password"
+        text.setPlaceholder("Passphrase").onChange((value) => (passphrase = value))
+      })
+      .addText((text) => {
+        text.inputEl.type = "password"
+        text.setPlaceholder("Confirm").onChange((value) => (confirmation = value))
+      })
+      .addButton((button) =>
+        button.setButtonText("Set").onClick(async () => {
+          if (!passphrase || passphrase !== confirmation) {
+            new Notice("S3agle: The passphrases don't match.")
+            return
+          }
+          const settings = this.plugin.settings
+          settings.encryptionSalt = settings.encryptionSalt || createSalt()
+          settings.encryptionCheck = await createPassphraseCheck(passphrase, settings.encryptionSalt)
+          rememberPassphrase(this.app, passphrase, false)
+          await this.plugin.saveSettings()
+          this.display()
+        }),
+      )
+  }
+
+  drawS3ProfileSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Bucket profiles")
+      .setDesc("Saved buckets and endpoints. They are used to migrate files and links from one bucket or endpoint to another.")
+      .setHeading()
+
+    let profileName = ""
+    new Setting(containerEl)
+      .setName("Save current settings as a profile")
+      .addText((text) => text.setPlaceholder("Profile name").onChange((value) => (profileName = value.trim())))
+      .addButton((button) =>
+        button.setButtonText("Save").onClick(async () => {
+          if (!profileName) {
+            new Notice("S3agle: Enter a name for the profile.")
+            return
+          }
+          this.plugin.settings.s3Profiles = this.plugin.settings.s3Profiles.filter((profile) => profile.name !== profileName)
+          this.plugin.settings.s3Profiles.push(createS3Profile(profileName, this.plugin.settings))
+          await this.plugin.saveSettings()
+          this.display()
+        }),
+      )
+
+    for (const profile of this.plugin.settings.s3Profiles) {
+      new Setting(containerEl)
+        .setName(profile.name)
+        .setDesc(`${profile.bucket} on ${profile.s3Url}`)
+        .addButton((button) =>
+          button.setButtonText("Use").onClick(async () => {
+            Object.assign(this.plugin.settings, applyS3Profile(this.plugin.settings, profile))
+            await this.plugin.saveSettings()
+            this.display()
+          }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete profile")
+            .onClick(async () => {
+              this.plugin.settings.s3Profiles = this.plugin.settings.s3Profiles.filter((saved) => saved !== profile)
+              await this.plugin.saveSettings()
+              this.display()
+            }),
+        )
+    }
   }
 
   drawEagleSettings(containerEl: HTMLElement) {
@@ -383,12 +1023,43 @@ export class S3agleSettingTab extends PluginSettingTab {
               await this.plugin.saveSettings()
             }),
         )
+
+      new Setting(containerEl)
+        .setName("Eagle API token")
+        .setDesc("Token from Eagle's developer settings, for Eagle builds that require one. Leave empty otherwise.")
+        .addText((text) => {
+          text.inputEl.type = "password"
+          text
+            .setValue(this.plugin.settings.eagleApiToken)
+            .onChange(async (value) => {
+              this.plugin.settings.eagleApiToken = value.trim()
+              await this.plugin.saveSettings()
+            })
+        })
+
+      new Setting(containerEl)
+        .setName("Eagle path mapping")
+        .setDesc("When Eagle runs on another computer, map folders on this computer to the same folders as that computer sees them, one \"local => remote\" per line. Files outside a mapped folder are imported from their S3 link instead.")
+        .addTextArea((text) =>
+          text
+            .setPlaceholder("/Users/me/Vault => //nas/vault")
+            .setValue(this.plugin.settings.eaglePathMappings.map(({ localPath, remotePath }) => `${localPath} => ${remotePath}`).join("\n"))
+            .onChange(async (value) => {
+              this.plugin.settings.eaglePathMappings = value.split("\n").flatMap((line) => {
+                const [localPath, remotePath] = line.split("=>").map((part) => part.trim())
+                return localPath && remotePath ? [{ localPath, remotePath }] : []
+              })
+              await this.plugin.saveSettings()
+            }),
+        )
     }
 
+    if (this.plugin.settings.useEagle) this.drawEagleLibrarySettings(containerEl)
+
     // Change Eagle Folder for new files
     new Setting(containerEl)
       .setName("Eagle Folder")
-      .setDesc("The default folder path within Eagle for new files. (Optional)")
+      .setDesc("The folder path within Eagle for new files, created if it doesn't exist. Use ${noteFolder} and ${noteName} to mirror the vault, ${year}, ${month} and ${day} for the date, or ${field} for a frontmatter field of the note. (Optional)")
       .addText((text) =>
         text
           .setValue(this.plugin.settings.eagleFolder)
@@ -397,6 +1068,123 @@ export class S3agleSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings()
           }),
       )
+
+    this.drawEagleMetadataSettings(containerEl)
+    this.drawEagleSyncSettings(containerEl)
+  }
+
+  drawEagleLibrarySettings(containerEl: HTMLElement) {
+    const { settings } = this.plugin
+    const description = "Library new files are imported into, unless a folder rule or the note sets S3agleEagleLibrary."
+    const librarySetting = new Setting(containerEl)
+      .setName("Eagle library")
+      .setDesc(`${description} Checking Eagle…`)
+      .addDropdown((dropdown) => {
+        dropdown.addOption("", "Whichever library is open")
+        if (settings.eagleLibrary) dropdown.addOption(settings.eagleLibrary, getEagleLibraryName(settings.eagleLibrary))
+        dropdown.setValue(settings.eagleLibrary).onChange(async (value) => {
+          settings.eagleLibrary = value
+          await this.plugin.saveSettings()
+        })
+
+        // The choices are the libraries Eagle opened recently, which needs Eagle to be running
+        Promise.all([getActiveEagleLibrary(settings), getRecentEagleLibraries(settings)])
+          .then(([active, recent]) => {
+            recent.filter((path) => path !== settings.eagleLibrary)
+              .forEach((path) => dropdown.addOption(path, getEagleLibraryName(path)))
+            dropdown.setValue(settings.eagleLibrary)
+            librarySetting.setDesc(`${description} Eagle has "${active.name}" open (${active.path}).`)
+          })
+          .catch((error) => librarySetting.setDesc(`${description} ${error.message}`))
+      })
+
+    new Setting(containerEl)
+      .setName("Switch Eagle library automatically")
+      .setDesc("Switch Eagle to the library a file goes to. When off, files for a library that isn't open stay in the upload queue until it is opened.")
+      .addToggle((toggle) =>
+        toggle.setValue(settings.eagleSwitchLibrary).onChange(async (value) => {
+          settings.eagleSwitchLibrary = value
+          await this.plugin.saveSettings()
+        }),
+      )
+  }
+
+  drawEagleMetadataSettings(containerEl: HTMLElement) {
+    const variables = "Variables: ${noteTitle}, ${notePath}, ${noteLink} (opens the note in Obsidian), ${paragraph} (text around the file), ${tags} (tags of the note), ${url} (S3 link) and ${fileName}."
+
+    new Setting(containerEl)
+      .setName("Eagle tags")
+      .setDesc(`Comma separated tags for new Eagle items. Notes can add more with an S3agleEagleTags frontmatter field. ${variables}`)
+      .addText((text) =>
+        text
+          .setValue(this.plugin.settings.eagleTagsTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.eagleTagsTemplate = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Eagle annotation")
+      .setDesc(`Annotation for new Eagle items. ${variables}`)
+      .addTextArea((text) =>
+        text
+          .setValue(this.plugin.settings.eagleAnnotationTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.eagleAnnotationTemplate = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Eagle website")
+      .setDesc(`Website for new Eagle items. ${variables}`)
+      .addText((text) =>
+        text
+          .setValue(this.plugin.settings.eagleWebsiteTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.eagleWebsiteTemplate = value.trim()
+            await this.plugin.saveSettings()
+          }),
+      )
+  }
+
+  drawEagleSyncSettings(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName("Sync Eagle items when a note changes")
+      .setDesc("Push the tags of a note and the alt text of its embeds to the Eagle items it links to, a few seconds after the note is edited.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.eagleSyncOnSave)
+          .onChange(async (value) => {
+            this.plugin.settings.eagleSyncOnSave = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Show Eagle tags and annotations in notes")
+      .setDesc("The sync command writes the tags and annotation of each Eagle item into a collapsed callout below its link.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.eagleSyncCallouts)
+          .onChange(async (value) => {
+            this.plugin.settings.eagleSyncCallouts = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName("Offer to trash Eagle items of deleted notes")
+      .setDesc("When a note is deleted, list the Eagle items it linked to that no other note links to, and offer to move them to the Eagle trash. Takes effect after reloading the plugin.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.eagleTrashOnNoteDelete)
+          .onChange(async (value) => {
+            this.plugin.settings.eagleTrashOnNoteDelete = value
+            await this.plugin.saveSettings()
+          }),
+      )
   }
 }
 
@@ -0,0 +1,75 @@
+import { App } from "obsidian"
+import type { S3agleSettings, S3agleSettingTab } from "../settings"
+import { NoteContext, UploadResults } from "../types"
+
+export type BackendContext = {
+  app: App
+  settings: S3agleSettings
+}
+
+export type UploadContext = BackendContext & {
+  results: UploadResults // Locations from the backends that already ran for this file
+  stashPath?: string // Vault path of a temporary copy of the file, if there is one
+  onProgress?: (fraction: number) => void
+  note?: NoteContext // Note the file is added to, if there is one
+  pending?: Record<string, unknown> // Saved with queued jobs, a backend can mark work it handed off here and pick it up on retry
+}
+
+export type StoredObject = {
+  location: string
+  name: string
+  size?: number
+  lastModified?: Date
+}
+
+/**
+ * A place files can be stored. Locations are whatever the backend uses to find a file again,
+ * for example a public URL for S3 or a vault path for the vault, and are what ends up in the note.
+ */
+export interface StorageBackend {
+  id: string
+  name: string
+  isEnabled(settings: S3agleSettings): boolean
+  upload(file: File, context: UploadContext): Promise<string>
+  uploadMany?(uploads: { file: File, context: UploadContext }[]): Promise<(string | Error)[]> // Upload several files at once, for backends with a batch API. Each gets its location or the error that stopped it
+  download(location: string, context: BackendContext): Promise<Uint8Array>
+  delete(location: string, context: BackendContext): Promise<void>
+  exists(location: string, context: BackendContext): Promise<boolean>
+  list(context: BackendContext, prefix?: string): Promise<StoredObject[]>
+  owns(location: string, settings: S3agleSettings): boolean // Whether a location was produced by this backend
+  isAvailable?(context: BackendContext): Promise<boolean> // For backends that can be offline, like a local app. Queued uploads to them wait without holding up the others
+  getLocalPath?(location: string, context: BackendContext): string | null // Absolute path on disk, for backends that keep files locally
+  drawSettings?(containerEl: HTMLElement, tab: S3agleSettingTab): void
+}
+
+const backends = new Map<string, StorageBackend>()
+
+export const registerStorageBackend = (backend: StorageBackend): void => {
+  backends.set(backend.id, backend)
+}
+
+export const getStorageBackend = (id: string): StorageBackend | undefined => backends.get(id)
+
+// Every registered backend, in the order set in the settings
+export const getStorageBackends = (settings: S3agleSettings): StorageBackend[] => {
+  const ordered = settings.backendOrder
+    .map((id) => backends.get(id))
+    .filter((backend): backend is StorageBackend => !!backend)
+  const unordered = Array.from(backends.values()).filter((backend) => !settings.backendOrder.includes(backend.id))
+  return [...ordered, ...unordered]
+}
+
+export const getEnabledBackends = (settings: S3agleSettings): StorageBackend[] => {
+  return getStorageBackends(settings).filter((backend) => backend.isEnabled(settings))
+}
+
+// The backend whose location is used for the link in the note: the primary backend if it has one, else the first in order
+export const getPrimaryBackendId = (settings: S3agleSettings, results: UploadResults): string | undefined => {
+  if (settings.primaryBackend && results[settings.primaryBackend]) return settings.primaryBackend
+  return getStorageBackends(settings).find((backend) => results[backend.id])?.id
+}
+
+// Find the backend that produced a location
+export const getBackendForLocation = (location: string, settings: S3agleSettings): StorageBackend | undefined => {
+  return getStorageBackends(settings).find((backend) => backend.owns(location, settings))
+}
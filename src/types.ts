@@ -13,4 +13,66 @@ export type FileReference = {
   path: string
   name: string
   reference: string // This is the whole string that contains the file as well as the markdown around it
-}
\ No newline at end of file
+}
+
+// The note a file is being added to, for backends that record where a file came from
+export type NoteContext = {
+  path: string
+  paragraph: string // Text around the file in the note
+}
+
+// Where a file ended up after being uploaded, keyed by the ID of each storage backend that finished
+export type UploadResults = Record<string, string>
+
+export type UploadJob = {
+  id: string
+  fileName: string
+  mimeType: string
+  stashPath: string // Vault path of the temporary copy of the source bytes
+  notePath: string // Note that holds the placeholder for this upload
+  destinations: string[] // IDs of the storage backends to upload to, in order
+  results: UploadResults // Destinations that already succeeded, skipped on retry
+  attempts: number
+  nextAttemptAt: number // Epoch ms, the job is not run before this
+  status: "pending" | "deferred" | "failed" // Deferred jobs are linked in the note and wait for a destination that was offline
+  lastError?: string
+  hash?: string // Content hash, used to look the file up in the attachment index
+  pending?: Record<string, unknown> // Work a destination accepted but hasn't finished, by backend ID, so a retry doesn't send it again
+  linked?: boolean // The note already links to the file, set once a job has been deferred
+}
+
+// What the plugin knows about an uploaded file, keyed by content hash in the attachment index
+export type AttachmentEntry = {
+  hash: string // SHA-256 of the file content
+  fileName: string
+  size: number
+  mimeType: string
+  uploadedAt: number // Epoch ms
+  locations: UploadResults // Where the content is stored, reused instead of uploading it again
+  link: string // Location that is linked in notes
+  s3Key?: string
+  eagleItemId?: string
+  vaultPath?: string
+  notes: string[] // Notes that link to the file, as of the last upload or usage lookup
+}
+
+// What a sync last pushed to an Eagle item from one note, so later syncs only push what changed in the note since
+export type EagleSyncRecord = {
+  tags: string[]
+  annotation: string // Description from the alt text, empty when the note had none
+}
+
+export type EagleItem = {
+  id: string
+  name: string
+  ext: string
+  size: number
+  tags: string[]
+  folders: string[]
+  annotation: string
+  url: string
+  width?: number
+  height?: number
+  btime?: number // Epoch ms the item was added to Eagle
+  modificationTime?: number // Epoch ms
+}
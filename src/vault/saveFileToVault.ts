@@ -1,19 +1,19 @@
 import { App, Notice, TFile, normalizePath } from "obsidian"
 import { S3agleSettings } from "../settings"
-import { hashFile, hashArrayBuffer, incrementFileName, sanitizeFileName } from "../helpers"
+import { getTempFolderPath, hashFile, hashArrayBuffer, incrementFileName, sanitizeFileName } from "../helpers"
 
 export const saveFileToVault = async (
   file: File,
   settings: S3agleSettings,
   app: App,
-  tmp = false
+  tmp = false,
+  notify = true, // Bulk commands turn this off and report once at the end
 ): Promise<string> => {
   let fileName = settings.hashFileName ? await hashFile(file, settings.hashSeed) : sanitizeFileName(file.name)
 
   const data = await file.arrayBuffer()
   const localUploadFolder = settings.localUploadFolder || ""
-  const tmpFolder = settings.localUploadFolder ? settings.localUploadFolder + "/temp" : "S3agle-temporary-files"
-  const folderPath = !tmp ? normalizePath(localUploadFolder) : normalizePath(tmpFolder)
+  const folderPath = !tmp ? normalizePath(localUploadFolder) : getTempFolderPath(settings)
 
   // Check if the folder exists, create if not
   if (folderPath && !(await app.vault.adapter.exists(folderPath))) {
@@ -32,7 +32,7 @@ export const saveFileToVault = async (
       const existingFileHash = hashArrayBuffer(existingFileData, settings.hashSeed)
       const newFileHash = hashArrayBuffer(data, settings.hashSeed)
       if (existingFileHash === newFileHash) {
-        new Notice(`S3agle: "${fileName}" file exists, linking to existing file`)
+        if (notify) new Notice(`S3agle: "${fileName}" file exists, linking to existing file`)
         return filePath // File is the same, link to existing
       } else {
         // Increment file name if the content is different
@@ -46,7 +46,7 @@ export const saveFileToVault = async (
   // Save the new file in the vault
   try {
     await app.vault.createBinary(filePath, new Uint8Array(data))
-    new Notice(`S3agle: File saved successfully in vault at: ${filePath}`)
+    if (notify) new Notice(`S3agle: File saved successfully in vault at: ${filePath}`)
     return filePath
   } catch (error) {
     new Notice("S3agle: Failed to save file in vault.")
@@ -0,0 +1,57 @@
+import { TFile, TFolder, normalizePath } from "obsidian"
+import { StorageBackend } from "../storage/storageBackend"
+import { getAbsoluteVaultPath } from "../helpers"
+import { saveFileToVault } from "./saveFileToVault"
+
+export const vaultBackend: StorageBackend = {
+  id: "vault",
+  name: "Vault",
+
+  isEnabled: (settings) => settings.useVault,
+
+  upload: async (file, { app, settings }) => {
+    const filePath = await saveFileToVault(file, settings, app)
+    if (!filePath) throw new Error(`Failed to save ${file.name} in the vault.`)
+    return filePath
+  },
+
+  download: async (location, { app }) => {
+    return new Uint8Array(await app.vault.adapter.readBinary(normalizePath(location)))
+  },
+
+  delete: async (location, { app }) => {
+    const file = app.vault.getAbstractFileByPath(normalizePath(location))
+    if (file instanceof TFile) {
+      await app.fileManager.trashFile(file)
+    }
+  },
+
+  exists: (location, { app }) => app.vault.adapter.exists(normalizePath(location)),
+
+  list: async ({ app, settings }, prefix) => {
+    const folder = app.vault.getAbstractFileByPath(normalizePath(prefix || settings.localUploadFolder || "/"))
+    if (!(folder instanceof TFolder)) return []
+
+    const files: TFile[] = []
+    const collect = (current: TFolder) => {
+      for (const child of current.children) {
+        if (child instanceof TFile) files.push(child)
+        else if (child instanceof TFolder) collect(child)
+      }
+    }
+    collect(folder)
+
+    return files.map((file) => ({
+      location: file.path,
+      name: file.name,
+      size: file.stat.size,
+      lastModified: new Date(file.stat.mtime),
+    }))
+  },
+
+  owns: (location) => !/^[a-z][a-z0-9+.-]*:/i.test(location),
+
+  getLocalPath: (location, { app }) => getAbsoluteVaultPath(app, location),
+
+  drawSettings: (containerEl, tab) => tab.drawVaultSettings(containerEl),
+}